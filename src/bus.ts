@@ -1,74 +1,402 @@
 import type { PerikanEvent, PerikanEventData } from "./event"
+import { PerikanTopicTrie } from "./topic"
+import { computeRetryDelay, shouldRetry, type PerikanRetryPolicy } from "./retry"
+import { formatTraceparent, parseTraceparent, type IPerikanTracer } from "./tracing"
+import { PerikanTagIndex, compileTagSelector, type PerikanTagMatcher, type PerikanTagSelector } from "./tags"
+
+/**
+ * 分发模式，concurrent 为并发执行所有处理器，sequential 为按照优先级分层依次执行
+ *
+ * Dispatch mode, concurrent runs all handlers concurrently, sequential runs the handlers tier by tier in priority order
+ */
+export type PerikanDispatchMode = "concurrent" | "sequential"
 
 export type PerikanInternalBusOptions = {
     workerId?: number
     maxTimeout?: number
+    /**
+     * 默认的分发模式
+     *
+     * Default dispatch mode
+     */
+    dispatch?: PerikanDispatchMode
+    /**
+     * 按主题覆盖的分发模式
+     *
+     * Dispatch modes overridden per topic
+     */
+    topicDispatch?: Record<string, PerikanDispatchMode>
+    /**
+     * 追踪器，每次向处理器投递时都会创建一个 Span
+     *
+     * Tracer, a span is created for every delivery to a handler
+     */
+    tracer?: IPerikanTracer
+}
+
+/**
+ * 处理器返回该值时表示没有处理本次投递，投递结果的状态为 skipped
+ *
+ * Returned by a handler to signal that it did not handle the delivery, the status of the delivery result is skipped
+ */
+export const PERIKAN_SKIP_DELIVERY: unique symbol = Symbol("perikan.skip-delivery")
+
+/**
+ * 事件处理器，在顺序分发模式下返回 false 将阻止后续优先级的处理器接收事件，返回 PERIKAN_SKIP_DELIVERY 表示跳过了本次投递
+ *
+ * Event handler, returning false in sequential dispatch mode stops the handlers of lower priorities from receiving the event, returning PERIKAN_SKIP_DELIVERY marks the delivery as skipped
+ */
+export type EventHandler<Payload extends object> = (
+    eventData: PerikanEventData<Payload>
+) => void | boolean | typeof PERIKAN_SKIP_DELIVERY | Promise<void | boolean | typeof PERIKAN_SKIP_DELIVERY>
+
+/**
+ * 订阅选项
+ *
+ * Subscription options
+ */
+export type PerikanSubscriptionOptions = {
+    /**
+     * 处理器失败或超时且重试耗尽时调用的错误回调
+     *
+     * Error callback invoked when the handler fails or times out and retries are exhausted
+     */
+    onError?: (data: PerikanEventData<any>, error: unknown, result: PerikanHandlerResult) => void
+    /**
+     * 每次投递完成 (包括重试) 之后调用，无论成功与否，data 为处理器收到的事件数据
+     *
+     * Invoked after every delivery completes (retries included), whether it succeeded or not, data is the event data the handler received
+     */
+    onSettled?: (data: PerikanEventData<any>, result: PerikanHandlerResult) => void
+    /**
+     * 处理器失败或超时时的重试策略
+     *
+     * Retry policy when the handler fails or times out
+     */
+    retry?: PerikanRetryPolicy
+    /**
+     * 处理器的优先级，数值越大越先执行，默认为 0
+     *
+     * Priority of the handler, higher values run first, 0 by default
+     */
+    priority?: number
+    /**
+     * 标签选择器，只有标签满足选择器的事件才会交给处理器
+     *
+     * Tag selector, only events whose tags satisfy the selector are handed to the handler
+     */
+    tags?: PerikanTagSelector
 }
 
-export type EventHandler<Payload extends object> = (eventData: PerikanEventData<Payload>) => void | Promise<void>
+/**
+ * 单个处理器的投递状态
+ *
+ * Delivery status of a single handler
+ */
+export type PerikanHandlerStatus = "fulfilled" | "rejected" | "timeout" | "skipped"
 
+/**
+ * 单个处理器的投递结果
+ *
+ * Delivery result of a single handler
+ */
+export type PerikanHandlerResult = {
+    status: PerikanHandlerStatus
+    /**
+     * 处理器的执行时长 (毫秒)
+     *
+     * Execution duration of the handler (milliseconds)
+     */
+    duration: number
+    /**
+     * 处理器的尝试次数
+     *
+     * Number of attempts of the handler
+     */
+    attempts: number
+    error?: unknown
+    /**
+     * 处理器是否要求停止向后续优先级传播
+     *
+     * Whether the handler asked to stop propagating to lower priorities
+     */
+    stopped?: boolean
+}
+
+/**
+ * 一次事件发布的投递报告
+ *
+ * Delivery report of a single emit
+ */
+export type PerikanDeliveryReport = {
+    topic: string
+    /**
+     * 事件数据是否有效且可以被当前总线接收
+     *
+     * Whether the event data is valid and can be received by the current bus
+     */
+    accepted: boolean
+    results: PerikanHandlerResult[]
+}
+
+/**
+ * 事件总线接口，只有 on 与 emit 是必须实现的
+ *
+ * Event bus interface, only on and emit are required
+ */
 export interface IPerikanEventBus {
-    on<Payload extends object>(event: PerikanEvent<Payload>, handler: EventHandler<Payload>, onError?: (data: any, error: any) => void): () => void
-    emit(event: PerikanEvent<any>, eventData: PerikanEventData<any>): Promise<void>
+    /**
+     * 订阅事件，第三个参数是订阅选项，早期版本中为错误回调，为早期版本实现的总线需要改为读取 options.onError
+     *
+     * Subscribe to an event, the third parameter is the subscription options, it was an error callback in early versions, so buses implemented for early versions need to read options.onError instead
+     */
+    on<Payload extends object>(event: PerikanEvent<Payload>, handler: EventHandler<Payload>, options?: PerikanSubscriptionOptions): () => void
+    /**
+     * 订阅匹配主题模式的事件，未实现时 Perikan 的 onPattern 会抛出错误
+     *
+     * Subscribe to the events matching a topic pattern, the onPattern of Perikan throws when not implemented
+     */
+    onPattern?(pattern: string, handler: EventHandler<any>, options?: PerikanSubscriptionOptions): () => void
+    /**
+     * 分发事件并返回投递报告，没有返回报告时 Perikan 视为事件已被接收，但没有处理器的结果
+     *
+     * Dispatch the event and return the delivery report, when no report is returned Perikan treats the event as accepted without handler results
+     */
+    emit(event: PerikanEvent<any>, eventData: PerikanEventData<any>): Promise<PerikanDeliveryReport | void>
+    /**
+     * 判断主题是否有处理器，未实现时 Perikan 假设总是有处理器
+     *
+     * Determine whether the topic has handlers, Perikan assumes there always are when not implemented
+     *
+     * @param topic 主题 topic
+     * @param exact 是否只计算精确订阅该主题的处理器，不包括通配符模式 whether to count only handlers subscribed to the exact topic, excluding wildcard patterns
+     */
+    hasListeners?(topic: string, exact?: boolean): boolean
+}
+
+/**
+ * 总线内部的订阅记录
+ *
+ * Subscription record inside the bus
+ */
+export type PerikanSubscription = {
+    handler: EventHandler<any>
+    options: PerikanSubscriptionOptions
+    /**
+     * 编译后的标签选择器
+     *
+     * Compiled tag selector
+     */
+    selector?: PerikanTagMatcher
 }
 
+// 用于标记处理器超时的哨兵值
+const TIMEOUT = Symbol("timeout")
+
 export class PerikanLocalBus implements IPerikanEventBus {
     constructor(protected readonly options: PerikanInternalBusOptions = {}) {
         const timeout = options.maxTimeout ?? 0
         this.maxTimeout = timeout > 0 ? timeout : 0
         this.workerId = options.workerId ?? 0
+        this.dispatch = options.dispatch ?? "concurrent"
+        this.topicDispatch = new Map(Object.entries(options.topicDispatch ?? {}))
     }
 
     protected maxTimeout: number
     protected workerId: number
+    protected dispatch: PerikanDispatchMode
+    protected readonly topicDispatch: Map<string, PerikanDispatchMode>
+
+    // 以主题分段为键的订阅索引，精确主题与通配符模式共用同一棵前缀树
+    protected readonly subscriptionsTrie: PerikanTopicTrie<PerikanSubscription> = new PerikanTopicTrie()
 
-    protected readonly handlersMap: Map<string, Set<EventHandler<any>>> = new Map()
+    // 以锚点标签为键的带标签选择器的订阅索引，没有标签选择器的订阅不会被加入
+    protected readonly tagIndex: PerikanTagIndex<PerikanSubscription> = new PerikanTagIndex()
 
-    on<Payload extends object>(event: PerikanEvent<Payload>, handler: EventHandler<Payload>): () => void {
-        // 如果当前事件的主题对应的集合不存在，则创建新的集合
-        if (!this.handlersMap.has(event.topic)) this.handlersMap.set(event.topic, new Set())
-        const handlers = this.handlersMap.get(event.topic)!
+    on<Payload extends object>(event: PerikanEvent<Payload>, handler: EventHandler<Payload>, options?: PerikanSubscriptionOptions): () => void {
+        return this.onPattern(event.topic, handler, options)
+    }
 
-        // 将当前的处理器添加到处理器集合中
-        handlers.add(handler)
+    onPattern(pattern: string, handler: EventHandler<any>, options: PerikanSubscriptionOptions = {}): () => void {
+        // 每次订阅都会创建独立的订阅记录，同一个处理器可以被多次订阅
+        // 标签选择器在订阅时编译，无效的表达式会立即抛出
+        const selector = options.tags === undefined ? undefined : compileTagSelector(options.tags)
+        const subscription: PerikanSubscription = { handler, options, selector }
+        this.subscriptionsTrie.add(pattern, subscription)
+        if (selector) this.tagIndex.add(selector, subscription)
 
-        // 返回一个用于取消当前处理器的函数
+        // 返回一个用于取消当前订阅的函数，前缀树会自动清理不再使用的节点
         return () => {
-            handlers.delete(handler)
-            if (handlers.size === 0) {
-                this.handlersMap.delete(event.topic)
-            }
+            this.subscriptionsTrie.delete(pattern, subscription)
+            if (selector) this.tagIndex.delete(selector, subscription)
         }
     }
 
-    async emit(event: PerikanEvent<any>, eventData: PerikanEventData<any>): Promise<void> {
-        // 首先验证事件数据是否属于提供的事件
-        if (!event.validate(eventData)) return
+    /**
+     * 设置指定主题的分发模式
+     *
+     * Set the dispatch mode of the given topic
+     *
+     * @param topic 主题 topic
+     * @param mode 分发模式 dispatch mode
+     */
+    setDispatchMode(topic: string, mode: PerikanDispatchMode) {
+        this.topicDispatch.set(topic, mode)
+        return this
+    }
+
+    hasListeners(topic: string, exact = false): boolean {
+        return (exact ? this.subscriptionsTrie.get(topic) : this.subscriptionsTrie.match(topic)).size > 0
+    }
+
+    async emit(event: PerikanEvent<any>, eventData: PerikanEventData<any>): Promise<PerikanDeliveryReport> {
+        const report: PerikanDeliveryReport = { topic: event.topic, accepted: false, results: [] }
+
+        // 首先验证事件数据是否属于提供的事件，旧版本的事件数据会被升级到当前版本
+        const parsed = event.safeParse(eventData)
+        if (!parsed.success) return report
+        eventData = parsed.data
 
         // 验证事件数据是否可以被当前的本地总线接收
-        if (eventData.to.length === 0 || eventData.to.includes(this.workerId))
-            if (this.handlersMap.has(event.topic)) {
-                // 检查当前事件数据对应的主题是否有已注册的处理器
-                // 获取所有已注册的处理器
-                const handlers = this.handlersMap.get(event.topic)!
-
-                // 遍历所有处理器并构建用于并发的任务列表
-                const tasks = Array.from(handlers).map((handler) => {
-                    try {
-                        return Promise.resolve(handler(eventData))
-                    } catch (err) {
-                        return Promise.reject(err)
-                    }
-                })
-
-                // 并发执行所有任务，如果设置的超时时间不为0则应用超时规则
-                await Promise.allSettled(
-                    tasks.map((task) =>
-                        this.maxTimeout > 0
-                            ? Promise.race([task, new Promise((_, reject) => setTimeout(() => reject(new Error("Timeout")), this.maxTimeout))])
-                            : task
-                    )
-                )
-            } else return Promise.resolve()
+        if (eventData.to.length > 0 && !eventData.to.includes(this.workerId)) return report
+        report.accepted = true
+
+        // 获取所有主题或模式与当前事件匹配的订阅，带标签选择器的订阅只有在通过标签索引成为候选后才会被判断，然后按照优先级从高到低排序
+        const candidates = this.tagIndex.candidates(eventData.tags)
+        const subscriptions = Array.from(this.subscriptionsTrie.match(event.topic))
+            .filter((subscription) => !subscription.selector || (candidates.has(subscription) && subscription.selector.test(eventData.tags)))
+            .sort((a, b) => (b.options.priority ?? 0) - (a.options.priority ?? 0))
+
+        const mode = this.topicDispatch.get(event.topic) ?? this.dispatch
+        report.results =
+            mode === "sequential"
+                ? await this.dispatchSequential(subscriptions, eventData)
+                : await Promise.all(subscriptions.map((subscription) => this.deliver(subscription, eventData)))
+        return report
+    }
+
+    /**
+     * 按照优先级分层依次投递，同一优先级的处理器并发执行，任一处理器返回 false 时跳过后续的层级
+     *
+     * Deliver tier by tier in priority order, handlers of the same priority run concurrently, the remaining tiers are skipped once any handler returns false
+     *
+     * @param subscriptions 按照优先级排序的订阅 subscriptions sorted by priority
+     * @param eventData 事件数据 event data
+     * @returns 投递结果 delivery results
+     */
+    protected async dispatchSequential(subscriptions: PerikanSubscription[], eventData: PerikanEventData<any>): Promise<PerikanHandlerResult[]> {
+        const results: PerikanHandlerResult[] = []
+        let index = 0
+        while (index < subscriptions.length) {
+            const priority = subscriptions[index]!.options.priority ?? 0
+            const tier: PerikanSubscription[] = []
+            while (index < subscriptions.length && (subscriptions[index]!.options.priority ?? 0) === priority) tier.push(subscriptions[index++]!)
+
+            const tierResults = await Promise.all(tier.map((subscription) => this.deliver(subscription, eventData)))
+            results.push(...tierResults)
+            if (tierResults.some((result) => result.stopped)) break
+        }
+
+        // 被阻止传播的处理器标记为跳过
+        for (; index < subscriptions.length; index++) results.push({ status: "skipped", duration: 0, attempts: 0 })
+        return results
+    }
+
+    /**
+     * 将事件数据投递给单个订阅，失败时按照订阅的重试策略进行重试
+     *
+     * Deliver the event data to a single subscription, retrying according to the retry policy of the subscription on failure
+     *
+     * @param subscription 订阅 subscription
+     * @param eventData 事件数据 event data
+     * @returns 投递结果 delivery result
+     */
+    protected async deliver(subscription: PerikanSubscription, eventData: PerikanEventData<any>): Promise<PerikanHandlerResult> {
+        const { retry, onError, onSettled } = subscription.options
+        const start = performance.now()
+        let attempts = 0
+        let outcome: Pick<PerikanHandlerResult, "status" | "error" | "stopped">
+
+        // 处理器收到的事件数据携带当前 Span 的 traceparent，使其发布的后续事件延续追踪
+        const span = this.options.tracer?.startSpan(`process ${eventData.topic}`, {
+            kind: "consumer",
+            parent: parseTraceparent(eventData.traceparent),
+            attributes: {
+                "messaging.system": "perikan",
+                "messaging.operation.type": "process",
+                "messaging.destination.name": eventData.topic,
+                "messaging.message.id": String(eventData.id)
+            }
+        })
+        const delivered = span ? { ...eventData, traceparent: formatTraceparent(span.spanContext()) } : eventData
+
+        while (true) {
+            attempts++
+            outcome = await this.attempt(subscription.handler, delivered)
+            if (outcome.status === "fulfilled" || outcome.status === "skipped" || !retry || !shouldRetry(retry, outcome.error, attempts)) break
+            await new Promise((resolve) => setTimeout(resolve, computeRetryDelay(retry, attempts)))
+        }
+
+        const result: PerikanHandlerResult = { ...outcome, attempts, duration: performance.now() - start }
+        const failed = result.status === "rejected" || result.status === "timeout"
+        if (span) {
+            span.setAttribute("perikan.handler.status", result.status).setAttribute("perikan.handler.attempts", attempts)
+            if (failed) {
+                span.recordException(result.error)
+                span.setStatus({ code: "error", message: result.error instanceof Error ? result.error.message : String(result.error) })
+            }
+            span.end()
+        }
+        if (failed) {
+            // 错误回调自身的异常不应影响其他处理器
+            try {
+                onError?.(eventData, result.error, result)
+            } catch {}
+        }
+        try {
+            onSettled?.(delivered, result)
+        } catch {}
+        return result
+    }
+
+    /**
+     * 执行一次处理器，如果设置的超时时间不为0则应用超时规则
+     *
+     * Run the handler once, applying the timeout rule if the timeout is not 0
+     *
+     * @param handler 处理器 handler
+     * @param eventData 事件数据 event data
+     * @returns 执行结果 outcome
+     */
+    protected async attempt(
+        handler: EventHandler<any>,
+        eventData: PerikanEventData<any>
+    ): Promise<Pick<PerikanHandlerResult, "status" | "error" | "stopped">> {
+        let timer: ReturnType<typeof setTimeout> | undefined
+
+        // 同步抛出的异常也会被转换为拒绝的 Promise
+        let task: Promise<unknown>
+        try {
+            task = Promise.resolve(handler(eventData))
+        } catch (err) {
+            task = Promise.reject(err)
+        }
+
+        try {
+            const outcome =
+                this.maxTimeout > 0
+                    ? await Promise.race([
+                          task,
+                          new Promise<typeof TIMEOUT>((resolve) => (timer = setTimeout(() => resolve(TIMEOUT), this.maxTimeout)))
+                      ])
+                    : await task
+            if (outcome === TIMEOUT) return { status: "timeout", error: new Error("Timeout") }
+            if (outcome === PERIKAN_SKIP_DELIVERY) return { status: "skipped" }
+            return outcome === false ? { status: "fulfilled", stopped: true } : { status: "fulfilled" }
+        } catch (error) {
+            return { status: "rejected", error }
+        } finally {
+            clearTimeout(timer)
+        }
     }
 }
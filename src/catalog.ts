@@ -0,0 +1,170 @@
+import z from "zod"
+import type { PerikanEvent } from "./event"
+import { PerikanEventRegistry } from "./registry"
+
+/**
+ * 全局事件目录，所有通过 definePerikanEvent 和 defineRequest 定义的事件都会被自动注册，相同主题的事件会被覆盖
+ *
+ * Global event catalog, every event defined through definePerikanEvent and defineRequest is registered automatically, events with the same topic are overwritten
+ */
+export const PerikanEventCatalog = new PerikanEventRegistry()
+
+/**
+ * JSON Schema 对象
+ *
+ * JSON Schema object
+ */
+export type JSONSchema = z.core.JSONSchema.BaseSchema
+
+/**
+ * 单个事件导出的 JSON Schema
+ *
+ * JSON Schemas exported from a single event
+ */
+export type PerikanEventJSONSchema = {
+    topic: string
+    version: number
+    tags: string[]
+    /**
+     * 当前版本的负载数据的模式
+     *
+     * Schema of the payload of the current version
+     */
+    payload: JSONSchema
+    /**
+     * 当前版本的完整事件数据的模式
+     *
+     * Schema of the full event data of the current version
+     */
+    event: JSONSchema
+    /**
+     * 仍可被升级的旧版本负载数据的模式
+     *
+     * Schemas of the older payload versions that can still be upcast
+     */
+    migrations: { version: number; payload: JSONSchema }[]
+}
+
+/**
+ * AsyncAPI 文档的基本信息
+ *
+ * Basic information of the AsyncAPI document
+ */
+export type PerikanAsyncAPIInfo = {
+    title: string
+    version: string
+    description?: string
+}
+
+// bigint 在 JSON 编解码器中被编码为 {"$bigint": "..."}
+const BIGINT_JSON_SCHEMA: JSONSchema = {
+    type: "object",
+    properties: { $bigint: { type: "string", pattern: "^-?\\d+$" } },
+    required: ["$bigint"],
+    additionalProperties: false
+}
+
+/**
+ * 将 zod 模式转换为 JSON Schema，bigint 按照 JSON 编解码器的格式表示
+ *
+ * Convert a zod schema to JSON Schema, bigint is represented in the format of the JSON codec
+ *
+ * @param schema zod 模式 zod schema
+ * @returns JSON Schema
+ */
+export function toJSONSchema(schema: z.ZodType): JSONSchema {
+    const { $schema, ...jsonSchema } = z.toJSONSchema(schema, {
+        target: "draft-07",
+        unrepresentable: "any",
+        override: (ctx) => {
+            if (ctx.zodSchema._zod.def.type === "bigint") Object.assign(ctx.jsonSchema, BIGINT_JSON_SCHEMA)
+        }
+    })
+    return jsonSchema
+}
+
+/**
+ * 导出单个事件的 JSON Schema
+ *
+ * Export the JSON Schemas of a single event
+ *
+ * @param event 事件 event
+ * @returns 事件的 JSON Schema JSON Schemas of the event
+ */
+export function eventToJSONSchema(event: PerikanEvent<any>): PerikanEventJSONSchema {
+    return {
+        topic: event.topic,
+        version: event.version,
+        tags: event.opts?.defaultTags ?? [],
+        payload: toJSONSchema(event.payloadSchema),
+        event: toJSONSchema(event.eventSchema),
+        migrations: (event.opts?.migrations ?? [])
+            .map((migration) => ({ version: migration.version, payload: toJSONSchema(migration.schema) }))
+            .sort((a, b) => a.version - b.version)
+    }
+}
+
+/**
+ * 导出事件目录中所有事件的 JSON Schema
+ *
+ * Export the JSON Schemas of every event in the catalog
+ *
+ * @param events 要导出的事件，默认为全局事件目录 events to export, the global event catalog by default
+ * @returns 按主题排序的 JSON Schema JSON Schemas sorted by topic
+ */
+export function catalogToJSONSchema(events: Iterable<PerikanEvent<any>> = PerikanEventCatalog): PerikanEventJSONSchema[] {
+    return Array.from(events, eventToJSONSchema).sort((a, b) => a.topic.localeCompare(b.topic))
+}
+
+/**
+ * 将事件目录组装为 AsyncAPI 3.0 文档，每个主题对应一个通道，当前版本与每个旧版本各对应一条消息
+ *
+ * Assemble the event catalog into an AsyncAPI 3.0 document, each topic maps to a channel, with one message for the current version and one for every older version
+ *
+ * @param info 文档的基本信息 basic information of the document
+ * @param events 要导出的事件，默认为全局事件目录 events to export, the global event catalog by default
+ * @returns AsyncAPI 文档 AsyncAPI document
+ */
+export function catalogToAsyncAPI(info: PerikanAsyncAPIInfo, events: Iterable<PerikanEvent<any>> = PerikanEventCatalog) {
+    const channels: Record<string, object> = {}
+    const messages: Record<string, object> = {}
+    const schemas: Record<string, JSONSchema> = {}
+
+    for (const schema of catalogToJSONSchema(events)) {
+        const tags = schema.tags.map((name) => ({ name }))
+        const channelMessages: Record<string, object> = {}
+
+        const addMessage = (version: number, event: JSONSchema) => {
+            const id = `${schema.topic}.v${version}`
+            schemas[id] = event
+            messages[id] = {
+                name: schema.topic,
+                title: `${schema.topic} v${version}`,
+                contentType: "application/json",
+                payload: { $ref: `#/components/schemas/${id}` },
+                ...(tags.length > 0 && { tags }),
+                "x-perikan-version": version
+            }
+            channelMessages[id] = { $ref: `#/components/messages/${id}` }
+        }
+
+        addMessage(schema.version, schema.event)
+        for (const migration of schema.migrations) {
+            // 旧版本的事件数据可能不携带版本，未携带版本时视为版本 1
+            addMessage(migration.version, {
+                ...schema.event,
+                properties: { ...schema.event.properties, version: { type: "number", const: migration.version }, payload: migration.payload },
+                required: schema.event.required?.filter((key) => key !== "version")
+            })
+        }
+
+        channels[schema.topic] = { address: schema.topic, messages: channelMessages }
+    }
+
+    return {
+        asyncapi: "3.0.0",
+        info,
+        channels,
+        components: { messages, schemas }
+    }
+}
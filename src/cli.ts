@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from "node:fs/promises"
+import { parseArgs } from "node:util"
+import { generatePerikanModule } from "./codegen"
+
+const USAGE = `Usage: perikan-codegen <contract.json> [options]
+
+Generate a TypeScript module with zod schemas and definePerikanEvent calls from a JSON Schema or AsyncAPI document
+
+Options:
+  -o, --out <file>          write the module to a file instead of stdout
+      --import-from <name>  module to import definePerikanEvent from (default: perikan)
+      --topic <topic>       topic of a single JSON Schema input
+  -h, --help                show this message`
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: "string", short: "o" },
+            "import-from": { type: "string" },
+            topic: { type: "string" },
+            help: { type: "boolean", short: "h" }
+        }
+    })
+
+    if (values.help || positionals.length !== 1) {
+        console.log(USAGE)
+        if (!values.help) process.exitCode = 1
+        return
+    }
+
+    // 目前只支持 JSON 格式的契约文档
+    const document = JSON.parse(await readFile(positionals[0]!, "utf8"))
+    const source = generatePerikanModule(document, { importFrom: values["import-from"], topic: values.topic })
+
+    if (values.out) await writeFile(values.out, source)
+    else process.stdout.write(source)
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exitCode = 1
+})
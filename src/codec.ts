@@ -0,0 +1,400 @@
+import type { PerikanEvent, PerikanEventData } from "./event"
+import { PerikanEventRegistry } from "./registry"
+
+/**
+ * 事件数据的编解码器，解码的结果未经验证，需要通过 decodeEvent 进行验证
+ *
+ * Codec of event data, the decoded result is not validated and should be validated through decodeEvent
+ *
+ * @template Wire 编码后的数据类型 type of the encoded data
+ */
+export interface PerikanCodec<Wire = string | Uint8Array> {
+    readonly name: string
+    encode(data: PerikanEventData<any>): Wire
+    decode(raw: Wire): unknown
+}
+
+// JSON 中用于表示 bigint 的键
+const BIGINT_KEY = "$bigint"
+
+/**
+ * 将任意值序列化为 JSON，bigint 会被编码为 `{ "$bigint": "..." }`
+ *
+ * Serialize any value to JSON, bigints are encoded as `{ "$bigint": "..." }`
+ *
+ * @param value 值 value
+ * @returns JSON 字符串 JSON string
+ */
+export function stringifyJSON(value: unknown): string {
+    return JSON.stringify(value, (_, value) => (typeof value === "bigint" ? { [BIGINT_KEY]: value.toString() } : value))
+}
+
+/**
+ * 解析由 stringifyJSON 序列化的 JSON，还原其中的 bigint
+ *
+ * Parse JSON serialized by stringifyJSON, restoring the bigints in it
+ *
+ * @param raw JSON 字符串 JSON string
+ * @returns 值 value
+ */
+export function parseJSON(raw: string): unknown {
+    return JSON.parse(raw, (_, value) => {
+        if (value && typeof value === "object" && !Array.isArray(value)) {
+            const keys = Object.keys(value)
+            if (keys.length === 1 && keys[0] === BIGINT_KEY && typeof value[BIGINT_KEY] === "string") return BigInt(value[BIGINT_KEY])
+        }
+        return value
+    })
+}
+
+/**
+ * 支持 bigint 的 JSON 编解码器，bigint 会被编码为 `{ "$bigint": "..." }`
+ *
+ * JSON codec supporting bigint, bigints are encoded as `{ "$bigint": "..." }`
+ */
+export class PerikanJSONCodec implements PerikanCodec<string> {
+    readonly name = "json"
+
+    encode(data: PerikanEventData<any>): string {
+        return stringifyJSON(data)
+    }
+
+    decode(raw: string): unknown {
+        return parseJSON(raw)
+    }
+}
+
+/**
+ * 用于 MessagePack 编码的可增长缓冲区
+ *
+ * Growable buffer used by MessagePack encoding
+ */
+class ByteWriter {
+    private buffer = new Uint8Array(256)
+    private view = new DataView(this.buffer.buffer)
+    private length = 0
+
+    private ensure(size: number) {
+        if (this.length + size <= this.buffer.length) return
+        let capacity = this.buffer.length * 2
+        while (capacity < this.length + size) capacity *= 2
+        const next = new Uint8Array(capacity)
+        next.set(this.buffer.subarray(0, this.length))
+        this.buffer = next
+        this.view = new DataView(next.buffer)
+    }
+
+    u8(value: number) {
+        this.ensure(1)
+        this.view.setUint8(this.length, value)
+        this.length += 1
+    }
+
+    u16(value: number) {
+        this.ensure(2)
+        this.view.setUint16(this.length, value)
+        this.length += 2
+    }
+
+    u32(value: number) {
+        this.ensure(4)
+        this.view.setUint32(this.length, value)
+        this.length += 4
+    }
+
+    i8(value: number) {
+        this.ensure(1)
+        this.view.setInt8(this.length, value)
+        this.length += 1
+    }
+
+    i16(value: number) {
+        this.ensure(2)
+        this.view.setInt16(this.length, value)
+        this.length += 2
+    }
+
+    i32(value: number) {
+        this.ensure(4)
+        this.view.setInt32(this.length, value)
+        this.length += 4
+    }
+
+    u64(value: bigint) {
+        this.ensure(8)
+        this.view.setBigUint64(this.length, value)
+        this.length += 8
+    }
+
+    i64(value: bigint) {
+        this.ensure(8)
+        this.view.setBigInt64(this.length, value)
+        this.length += 8
+    }
+
+    f64(value: number) {
+        this.ensure(8)
+        this.view.setFloat64(this.length, value)
+        this.length += 8
+    }
+
+    bytes(value: Uint8Array) {
+        this.ensure(value.length)
+        this.buffer.set(value, this.length)
+        this.length += value.length
+    }
+
+    result(): Uint8Array {
+        return this.buffer.slice(0, this.length)
+    }
+}
+
+/**
+ * 紧凑的 MessagePack 二进制编解码器，bigint 会被编码为 64 位整数，64 位整数总是被解码为 bigint
+ *
+ * Compact MessagePack binary codec, bigints are encoded as 64-bit integers and 64-bit integers are always decoded as bigints
+ */
+export class PerikanMessagePackCodec implements PerikanCodec<Uint8Array> {
+    readonly name = "msgpack"
+
+    private readonly textEncoder = new TextEncoder()
+    private readonly textDecoder = new TextDecoder()
+
+    encode(data: PerikanEventData<any>): Uint8Array {
+        const writer = new ByteWriter()
+        this._write(writer, data)
+        return writer.result()
+    }
+
+    decode(raw: Uint8Array): unknown {
+        const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength)
+        const cursor = { offset: 0 }
+        const value = this._read(raw, view, cursor)
+        if (cursor.offset !== raw.byteLength) throw new Error("Unexpected trailing bytes in MessagePack data")
+        return value
+    }
+
+    private _write(writer: ByteWriter, value: unknown): void {
+        if (value === null || value === undefined) return writer.u8(0xc0)
+        if (value === false) return writer.u8(0xc2)
+        if (value === true) return writer.u8(0xc3)
+
+        if (typeof value === "number") return this._writeNumber(writer, value)
+
+        if (typeof value === "bigint") {
+            if (value >= 0n && value <= 0xffffffffffffffffn) {
+                writer.u8(0xcf)
+                return writer.u64(value)
+            }
+            if (value < 0n && value >= -0x8000000000000000n) {
+                writer.u8(0xd3)
+                return writer.i64(value)
+            }
+            throw new RangeError(`BigInt out of 64-bit range: ${value}`)
+        }
+
+        if (typeof value === "string") {
+            const bytes = this.textEncoder.encode(value)
+            if (bytes.length < 32) writer.u8(0xa0 | bytes.length)
+            else this._writeLength(writer, bytes.length, [0xd9, 0xda, 0xdb])
+            return writer.bytes(bytes)
+        }
+
+        if (value instanceof Uint8Array) {
+            this._writeLength(writer, value.length, [0xc4, 0xc5, 0xc6])
+            return writer.bytes(value)
+        }
+
+        if (Array.isArray(value)) {
+            if (value.length < 16) writer.u8(0x90 | value.length)
+            else this._writeLength(writer, value.length, [undefined, 0xdc, 0xdd])
+            for (const item of value) this._write(writer, item)
+            return
+        }
+
+        if (typeof value === "object") {
+            // 与 JSON 一致，值为 undefined 的键会被忽略
+            const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+            if (entries.length < 16) writer.u8(0x80 | entries.length)
+            else this._writeLength(writer, entries.length, [undefined, 0xde, 0xdf])
+            for (const [key, item] of entries) {
+                this._write(writer, key)
+                this._write(writer, item)
+            }
+            return
+        }
+
+        throw new TypeError(`Unsupported value type for MessagePack: ${typeof value}`)
+    }
+
+    /**
+     * 根据长度选择 8/16/32 位的长度格式写入类型与长度
+     *
+     * Write the type and length, choosing the 8/16/32-bit length format by the length
+     */
+    private _writeLength(writer: ByteWriter, length: number, types: [number | undefined, number, number]): void {
+        const [type8, type16, type32] = types
+        if (type8 !== undefined && length <= 0xff) {
+            writer.u8(type8)
+            writer.u8(length)
+        } else if (length <= 0xffff) {
+            writer.u8(type16)
+            writer.u16(length)
+        } else {
+            writer.u8(type32)
+            writer.u32(length)
+        }
+    }
+
+    private _writeNumber(writer: ByteWriter, value: number): void {
+        // 只有 32 位范围内的整数使用整数格式，其余数字使用 float64 以保证解码后仍为 number
+        if (!Number.isInteger(value) || value < -0x80000000 || value > 0xffffffff) {
+            writer.u8(0xcb)
+            return writer.f64(value)
+        }
+
+        if (value >= 0 && value < 0x80) return writer.u8(value)
+        if (value < 0 && value >= -32) return writer.i8(value)
+
+        if (value > 0xffff) {
+            writer.u8(0xce)
+            writer.u32(value)
+        } else if (value > 0xff) {
+            writer.u8(0xcd)
+            writer.u16(value)
+        } else if (value >= 0) {
+            writer.u8(0xcc)
+            writer.u8(value)
+        } else if (value >= -0x80) {
+            writer.u8(0xd0)
+            writer.i8(value)
+        } else if (value >= -0x8000) {
+            writer.u8(0xd1)
+            writer.i16(value)
+        } else {
+            writer.u8(0xd2)
+            writer.i32(value)
+        }
+    }
+
+    private _read(raw: Uint8Array, view: DataView, cursor: { offset: number }): unknown {
+        const take = (size: number) => {
+            if (cursor.offset + size > raw.byteLength) throw new Error("Unexpected end of MessagePack data")
+            const offset = cursor.offset
+            cursor.offset += size
+            return offset
+        }
+        const str = (size: number) => this.textDecoder.decode(raw.subarray(take(size), cursor.offset))
+        const bin = (size: number) => raw.slice(take(size), cursor.offset)
+        const array = (size: number) => Array.from({ length: size }, () => this._read(raw, view, cursor))
+        const map = (size: number) => {
+            const result: Record<string, unknown> = {}
+            for (let i = 0; i < size; i++) {
+                const key = this._read(raw, view, cursor)
+                if (typeof key !== "string") throw new Error("MessagePack map keys must be strings")
+                // 通过 defineProperty 定义属性，避免 __proto__ 键修改结果的原型
+                Object.defineProperty(result, key, { value: this._read(raw, view, cursor), enumerable: true, writable: true, configurable: true })
+            }
+            return result
+        }
+
+        const type = view.getUint8(take(1))
+        if (type < 0x80) return type
+        if (type < 0x90) return map(type & 0x0f)
+        if (type < 0xa0) return array(type & 0x0f)
+        if (type < 0xc0) return str(type & 0x1f)
+        if (type >= 0xe0) return type - 0x100
+
+        switch (type) {
+            case 0xc0:
+                return null
+            case 0xc2:
+                return false
+            case 0xc3:
+                return true
+            case 0xc4:
+                return bin(view.getUint8(take(1)))
+            case 0xc5:
+                return bin(view.getUint16(take(2)))
+            case 0xc6:
+                return bin(view.getUint32(take(4)))
+            case 0xca:
+                return view.getFloat32(take(4))
+            case 0xcb:
+                return view.getFloat64(take(8))
+            case 0xcc:
+                return view.getUint8(take(1))
+            case 0xcd:
+                return view.getUint16(take(2))
+            case 0xce:
+                return view.getUint32(take(4))
+            case 0xcf:
+                return view.getBigUint64(take(8))
+            case 0xd0:
+                return view.getInt8(take(1))
+            case 0xd1:
+                return view.getInt16(take(2))
+            case 0xd2:
+                return view.getInt32(take(4))
+            case 0xd3:
+                return view.getBigInt64(take(8))
+            case 0xd9:
+                return str(view.getUint8(take(1)))
+            case 0xda:
+                return str(view.getUint16(take(2)))
+            case 0xdb:
+                return str(view.getUint32(take(4)))
+            case 0xdc:
+                return array(view.getUint16(take(2)))
+            case 0xdd:
+                return array(view.getUint32(take(4)))
+            case 0xde:
+                return map(view.getUint16(take(2)))
+            case 0xdf:
+                return map(view.getUint32(take(4)))
+            default:
+                throw new Error(`Unsupported MessagePack type: 0x${type.toString(16)}`)
+        }
+    }
+}
+
+/**
+ * 解码事件数据并通过事件的模式重新验证
+ *
+ * Decode event data and validate it again through the schema of the event
+ *
+ * @param codec 编解码器 codec
+ * @param raw 编码后的数据 encoded data
+ * @param event 事件 event
+ * @returns 验证后的事件数据 validated event data
+ */
+export function decodeEvent<Wire, Payload extends object>(
+    codec: PerikanCodec<Wire>,
+    raw: Wire,
+    event: PerikanEvent<Payload>
+): PerikanEventData<Payload>
+/**
+ * 解码事件数据，根据主题从注册表中查找事件并通过其模式重新验证
+ *
+ * Decode event data, look up the event by topic from the registry and validate it again through its schema
+ *
+ * @param codec 编解码器 codec
+ * @param raw 编码后的数据 encoded data
+ * @param registry 事件注册表 event registry
+ * @returns 验证后的事件数据 validated event data
+ */
+export function decodeEvent<Wire>(codec: PerikanCodec<Wire>, raw: Wire, registry: PerikanEventRegistry): PerikanEventData<any>
+export function decodeEvent<Wire>(
+    codec: PerikanCodec<Wire>,
+    raw: Wire,
+    eventOrRegistry: PerikanEvent<any> | PerikanEventRegistry
+): PerikanEventData<any> {
+    const data = codec.decode(raw) as { topic?: unknown } | null
+    if (!(eventOrRegistry instanceof PerikanEventRegistry)) return eventOrRegistry.parse(data)
+
+    const topic = data && typeof data === "object" ? data.topic : undefined
+    if (typeof topic !== "string") throw new Error("Decoded data has no topic")
+    const event = eventOrRegistry.get(topic)
+    if (!event) throw new Error(`Unknown event topic: ${topic}`)
+    return event.parse(data)
+}
@@ -0,0 +1,381 @@
+import type { JSONSchema } from "./catalog"
+
+/**
+ * 代码生成的选项
+ *
+ * Options of code generation
+ */
+export type PerikanCodegenOptions = {
+    /**
+     * 生成的模块中导入 definePerikanEvent 的模块，默认为 "perikan"
+     *
+     * Module to import definePerikanEvent from in the generated module, "perikan" by default
+     */
+    importFrom?: string
+    /**
+     * 输入为单个 JSON Schema 时使用的主题，默认读取 x-perikan-topic 或 title
+     *
+     * Topic used when the input is a single JSON Schema, reads x-perikan-topic or title by default
+     */
+    topic?: string
+}
+
+/**
+ * 从契约文档中读取的事件定义
+ *
+ * Event definition read from a contract document
+ */
+export type PerikanCodegenEvent = {
+    topic: string
+    version?: number
+    tags: string[]
+    payload: JSONSchema
+}
+
+// 将 JSON Schema 转换为 zod 代码时的上下文
+type ConvertContext = {
+    root: unknown
+    refs: string[]
+    indent: string
+}
+
+const INDENT = "    "
+
+/**
+ * 从 JSON Schema、AsyncAPI 2.x / 3.x 文档或 catalogToJSONSchema 的导出结果中读取事件定义
+ *
+ * Read event definitions from a JSON Schema, an AsyncAPI 2.x / 3.x document or the output of catalogToJSONSchema
+ *
+ * @param document 契约文档 contract document
+ * @param options 代码生成的选项 options of code generation
+ * @returns 按主题排序的事件定义 event definitions sorted by topic
+ */
+export function readEventDefinitions(document: unknown, options: PerikanCodegenOptions = {}): PerikanCodegenEvent[] {
+    if (!isObject(document) && !Array.isArray(document)) throw new TypeError("Contract document must be a JSON object or array")
+
+    let events: PerikanCodegenEvent[]
+    if (Array.isArray(document)) {
+        events = document.map((entry) => {
+            if (!isObject(entry) || typeof entry.topic !== "string" || !isObject(entry.payload)) {
+                throw new TypeError("Every catalog entry must have a topic and a payload schema")
+            }
+            return { topic: entry.topic, version: toVersion(entry.version), tags: toStringArray(entry.tags), payload: entry.payload }
+        })
+    } else if (typeof document.asyncapi === "string") {
+        events = readAsyncAPI(document)
+    } else {
+        const topic = options.topic ?? document["x-perikan-topic"] ?? document.title
+        if (typeof topic !== "string") throw new Error("Cannot determine the topic of the JSON Schema, pass the topic option or set x-perikan-topic")
+        events = [{ topic, version: toVersion(document["x-perikan-version"]), tags: [], payload: document }]
+    }
+
+    return events.sort((a, b) => a.topic.localeCompare(b.topic))
+}
+
+/**
+ * 将 JSON Schema 转换为构建等价 zod 模式的代码
+ *
+ * Convert a JSON Schema to code building the equivalent zod schema
+ *
+ * @param schema JSON Schema
+ * @param root 用于解析 $ref 的根文档，默认为 schema 本身 root document to resolve $ref against, schema itself by default
+ * @returns zod 代码 zod code
+ */
+export function jsonSchemaToZod(schema: unknown, root: unknown = schema): string {
+    return convertSchema(schema, { root, refs: [], indent: "" })
+}
+
+/**
+ * 根据契约文档生成包含 zod 模式与 definePerikanEvent 调用的 TypeScript 模块
+ *
+ * Generate a TypeScript module with zod schemas and definePerikanEvent calls from a contract document
+ *
+ * @param document 契约文档 contract document
+ * @param options 代码生成的选项 options of code generation
+ * @returns TypeScript 模块的源代码 source code of the TypeScript module
+ */
+export function generatePerikanModule(document: unknown, options: PerikanCodegenOptions = {}): string {
+    const events = readEventDefinitions(document, options)
+    const names = new Set<string>()
+    const lines = [
+        "// 此文件由 perikan 根据事件契约生成，请勿手动修改",
+        "// This file is generated by perikan from event contracts, do not edit manually",
+        `import z from "zod"`,
+        `import { definePerikanEvent, type InferPayload } from ${JSON.stringify(options.importFrom ?? "perikan")}`
+    ]
+
+    for (const event of events) {
+        let name = toIdentifier(event.topic)
+        for (let i = 2; names.has(name); i++) name = `${toIdentifier(event.topic)}${i}`
+        names.add(name)
+
+        const defaults = [
+            event.tags.length > 0 ? `defaultTags: ${JSON.stringify(event.tags)}` : undefined,
+            event.version !== undefined ? `version: ${event.version}` : undefined
+        ].filter((option) => option !== undefined)
+
+        const args = [
+            JSON.stringify(event.topic),
+            convertSchema(event.payload, { root: document, refs: [], indent: INDENT }),
+            ...(defaults.length > 0 ? [`{ ${defaults.join(", ")} }`] : [])
+        ]
+
+        lines.push(
+            "",
+            `export const ${name} = definePerikanEvent(`,
+            args.map((arg) => INDENT + arg).join(",\n"),
+            ")",
+            `export type ${name}Payload = InferPayload<typeof ${name}>`
+        )
+    }
+
+    return lines.join("\n") + "\n"
+}
+
+/**
+ * 读取 AsyncAPI 文档中的消息，每个通道的地址作为主题，同一通道存在多个版本时取最新的版本
+ *
+ * Read the messages of an AsyncAPI document, the address of each channel is used as the topic, the latest version is taken when a channel has several versions
+ */
+function readAsyncAPI(document: Record<string, any>): PerikanCodegenEvent[] {
+    const events = new Map<string, PerikanCodegenEvent>()
+
+    for (const [channelId, channelOrRef] of Object.entries<unknown>(document.channels ?? {})) {
+        const channel = resolveRef(channelOrRef, document)
+        if (!isObject(channel)) continue
+
+        const topic = typeof channel.address === "string" ? channel.address : channelId
+        const messages = document.asyncapi.startsWith("2.")
+            ? [channel.publish?.message, channel.subscribe?.message].flatMap((message) => {
+                  const resolved = resolveRef(message, document)
+                  return isObject(resolved) && Array.isArray(resolved.oneOf) ? resolved.oneOf : [resolved]
+              })
+            : Object.values<unknown>(channel.messages ?? {})
+
+        for (const messageOrRef of messages) {
+            const message = resolveRef(messageOrRef, document)
+            if (!isObject(message)) continue
+
+            const event = readMessage(topic, message, document)
+            const existing = events.get(topic)
+            if (existing && existing.version === undefined && event.version === undefined && existing.payload !== event.payload) {
+                throw new Error(`Channel ${channelId} has several unversioned messages, set x-perikan-version to tell them apart`)
+            }
+            if (!existing || (event.version ?? 1) > (existing.version ?? 1)) events.set(topic, event)
+        }
+    }
+
+    return Array.from(events.values())
+}
+
+/**
+ * 读取单条 AsyncAPI 消息，消息负载为完整的 Perikan 事件数据时只取其中的 payload
+ *
+ * Read a single AsyncAPI message, only the payload is taken when the message payload is the full Perikan event data
+ */
+function readMessage(topic: string, message: Record<string, any>, document: unknown): PerikanCodegenEvent {
+    let payload = resolveRef(message.payload ?? {}, document)
+    let version = toVersion(message["x-perikan-version"])
+
+    const properties = isObject(payload) ? resolveRef(payload.properties, document) : undefined
+    if (isObject(properties) && properties.id && properties.topic && properties.payload) {
+        version ??= toVersion(resolveRef(properties.version, document)?.const)
+        payload = resolveRef(properties.payload, document)
+    }
+
+    const tags = Array.isArray(message.tags) ? message.tags.map((tag: unknown) => resolveRef(tag, document)?.name).filter(isString) : []
+    return { topic, version, tags, payload: isObject(payload) ? payload : {} }
+}
+
+/**
+ * 将 JSON Schema 转换为 zod 代码
+ *
+ * Convert JSON Schema to zod code
+ */
+function convertSchema(schema: unknown, ctx: ConvertContext): string {
+    if (schema === true || schema === undefined) return "z.any()"
+    if (schema === false) return "z.never()"
+    if (!isObject(schema)) return "z.any()"
+
+    if (typeof schema.$ref === "string") {
+        // 递归引用无法内联，退化为 z.any()
+        if (ctx.refs.includes(schema.$ref)) return "z.any()"
+        const target = resolveRef(schema, ctx.root)
+        if (target === undefined) throw new Error(`Cannot resolve $ref ${schema.$ref}`)
+        return convertSchema(target, { ...ctx, refs: [...ctx.refs, schema.$ref] })
+    }
+
+    let code = convertType(schema, ctx)
+    if (typeof schema.description === "string") code += `.describe(${JSON.stringify(schema.description)})`
+    if (schema.default !== undefined) code += `.default(${JSON.stringify(schema.default)})`
+    return code
+}
+
+/**
+ * 转换 JSON Schema 的类型部分，不包括描述与默认值
+ *
+ * Convert the type part of a JSON Schema, excluding description and default value
+ */
+function convertType(schema: Record<string, any>, ctx: ConvertContext): string {
+    if (isBigIntSchema(schema)) return "z.bigint()"
+    if (schema.const !== undefined) return `z.literal(${JSON.stringify(schema.const)})`
+
+    if (Array.isArray(schema.enum)) {
+        if (schema.enum.length === 1) return `z.literal(${JSON.stringify(schema.enum[0])})`
+        if (schema.enum.every(isString)) return `z.enum(${JSON.stringify(schema.enum)})`
+        return `z.union([${schema.enum.map((value: unknown) => `z.literal(${JSON.stringify(value)})`).join(", ")}])`
+    }
+
+    const variants = schema.anyOf ?? schema.oneOf
+    if (Array.isArray(variants)) {
+        const codes = variants.map((variant) => convertSchema(variant, ctx))
+        return codes.length === 1 ? codes[0]! : `z.union([${codes.join(", ")}])`
+    }
+
+    if (Array.isArray(schema.allOf)) {
+        const codes = schema.allOf.map((part: unknown) => convertSchema(part, ctx))
+        return codes.length === 0 ? "z.any()" : codes.reduce((a: string, b: string) => `z.intersection(${a}, ${b})`)
+    }
+
+    if (Array.isArray(schema.type)) {
+        const types = schema.type.filter((type: unknown) => type !== "null")
+        const codes = types.map((type: string) => convertType({ ...schema, type }, ctx))
+        const code = codes.length === 0 ? "z.null()" : codes.length === 1 ? codes[0]! : `z.union([${codes.join(", ")}])`
+        return types.length > 0 && types.length < schema.type.length ? `${code}.nullable()` : code
+    }
+    if (schema.nullable === true) return `${convertType({ ...schema, nullable: false }, ctx)}.nullable()`
+
+    switch (schema.type ?? (schema.properties ? "object" : schema.items ? "array" : undefined)) {
+        case "string":
+            return convertString(schema)
+        case "integer":
+            return "z.int()" + convertBounds(schema)
+        case "number":
+            return "z.number()" + convertBounds(schema)
+        case "boolean":
+            return "z.boolean()"
+        case "null":
+            return "z.null()"
+        case "array":
+            return convertArray(schema, ctx)
+        case "object":
+            return convertObject(schema, ctx)
+        default:
+            return "z.any()"
+    }
+}
+
+function convertString(schema: Record<string, any>): string {
+    const formats: Record<string, string> = {
+        email: "z.email()",
+        uuid: "z.uuid()",
+        uri: "z.url()",
+        url: "z.url()",
+        "date-time": "z.iso.datetime()",
+        date: "z.iso.date()",
+        time: "z.iso.time()",
+        ipv4: "z.ipv4()",
+        ipv6: "z.ipv6()"
+    }
+
+    let code = formats[schema.format] ?? "z.string()"
+    if (typeof schema.minLength === "number") code += `.min(${schema.minLength})`
+    if (typeof schema.maxLength === "number") code += `.max(${schema.maxLength})`
+    if (typeof schema.pattern === "string") code += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`
+    return code
+}
+
+function convertBounds(schema: Record<string, any>): string {
+    let code = ""
+    if (typeof schema.minimum === "number") code += schema.exclusiveMinimum === true ? `.gt(${schema.minimum})` : `.gte(${schema.minimum})`
+    if (typeof schema.maximum === "number") code += schema.exclusiveMaximum === true ? `.lt(${schema.maximum})` : `.lte(${schema.maximum})`
+    if (typeof schema.exclusiveMinimum === "number") code += `.gt(${schema.exclusiveMinimum})`
+    if (typeof schema.exclusiveMaximum === "number") code += `.lt(${schema.exclusiveMaximum})`
+    if (typeof schema.multipleOf === "number") code += `.multipleOf(${schema.multipleOf})`
+    return code
+}
+
+function convertArray(schema: Record<string, any>, ctx: ConvertContext): string {
+    const tuple = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined)
+    if (Array.isArray(tuple)) return `z.tuple([${tuple.map((item) => convertSchema(item, ctx)).join(", ")}])`
+
+    let code = `z.array(${convertSchema(schema.items, ctx)})`
+    if (typeof schema.minItems === "number") code += `.min(${schema.minItems})`
+    if (typeof schema.maxItems === "number") code += `.max(${schema.maxItems})`
+    return code
+}
+
+function convertObject(schema: Record<string, any>, ctx: ConvertContext): string {
+    const properties = Object.entries<unknown>(schema.properties ?? {})
+    const additional = schema.additionalProperties
+
+    if (properties.length === 0 && additional !== undefined && additional !== false) {
+        return `z.record(z.string(), ${convertSchema(additional, ctx)})`
+    }
+    if (properties.length === 0) return "z.object({})"
+
+    const required = new Set<string>(Array.isArray(schema.required) ? schema.required : [])
+    const inner = { ...ctx, indent: ctx.indent + INDENT }
+    const fields = properties.map(([key, property]) => {
+        let code = convertSchema(property, inner)
+        // 带有默认值的属性本身就是可选的
+        if (!required.has(key) && !(isObject(property) && property.default !== undefined)) code += ".optional()"
+        return `${inner.indent}${toPropertyKey(key)}: ${code}`
+    })
+
+    const factory = additional === true || isObject(additional) ? "z.looseObject" : "z.object"
+    return `${factory}({\n${fields.join(",\n")}\n${ctx.indent}})`
+}
+
+// JSON 编解码器将 bigint 编码为 {"$bigint": "..."}，对应的 JSON Schema 转换回 z.bigint()
+function isBigIntSchema(schema: Record<string, any>): boolean {
+    const keys = Object.keys(schema.properties ?? {})
+    return (
+        schema.type === "object" &&
+        keys.length === 1 &&
+        keys[0] === "$bigint" &&
+        Array.isArray(schema.required) &&
+        schema.required.includes("$bigint")
+    )
+}
+
+// 解析文档内的 $ref，只支持以 # 开头的 JSON Pointer
+function resolveRef(value: any, root: unknown): any {
+    if (!isObject(value) || typeof value.$ref !== "string") return value
+    if (!value.$ref.startsWith("#")) throw new Error(`Only local $ref is supported, got ${value.$ref}`)
+
+    let target: any = root
+    for (const segment of value.$ref.slice(1).split("/").filter(Boolean)) {
+        target = target?.[decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~")]
+    }
+    return target
+}
+
+function toIdentifier(topic: string): string {
+    const name = topic
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((part) => part[0]!.toUpperCase() + part.slice(1))
+        .join("")
+    return /^[A-Za-z_]/.test(name) ? name : `_${name}`
+}
+
+function toPropertyKey(key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+function toVersion(value: unknown): number | undefined {
+    return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : undefined
+}
+
+function toStringArray(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter(isString) : []
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === "string"
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+}
@@ -1,6 +1,7 @@
 import z from "zod"
 import type { Perikan } from "."
 import { LRUCache } from "./cache"
+import { PerikanEventCatalog } from "./catalog"
 
 // 用于判断对象是否为空的辅助函数
 // The helper function used to determine if an object is empty
@@ -18,6 +19,10 @@ export const PerikanEventDataSchema = z.object({
     from: z.number(),
     to: z.array(z.number()),
     tags: z.array(z.string()),
+    version: z.number().int().positive().optional(),
+    correlationId: z.bigint().optional(),
+    causationId: z.bigint().optional(),
+    traceparent: z.string().optional(),
     payload: z.any()
 })
 
@@ -32,6 +37,50 @@ export type PerikanEventData<Payload extends object> = z.infer<typeof PerikanEve
     payload: Payload
 }
 
+/**
+ * 从 Perikan 事件中推断事件负载数据的类型
+ *
+ * Infer the event payload type from a Perikan event
+ *
+ * @template Event Perikan 事件类型 type of the Perikan event
+ */
+export type InferPayload<Event> = Event extends PerikanEvent<infer Payload> ? Payload : never
+
+/**
+ * 从 Perikan 事件中推断事件数据的类型，对联合类型进行分配
+ *
+ * Infer the event data type from a Perikan event, distributing over unions
+ *
+ * @template Event Perikan 事件类型 type of the Perikan event
+ */
+export type InferEventData<Event> = Event extends PerikanEvent<infer Payload> ? PerikanEventData<Payload> : never
+
+/**
+ * 事件负载数据的迁移，将某个旧版本的负载数据升级到下一个版本
+ *
+ * Migration of the event payload, upcasting the payload of an older version to the next version
+ */
+export type PerikanEventMigration = {
+    /**
+     * 迁移前负载数据的版本
+     *
+     * Version of the payload before the migration
+     */
+    version: number
+    /**
+     * 该版本负载数据的模式
+     *
+     * Schema of the payload of this version
+     */
+    schema: z.ZodType<any>
+    /**
+     * 将该版本的负载数据升级到下一个版本
+     *
+     * Upcast the payload of this version to the next version
+     */
+    up: (payload: any) => any
+}
+
 /**
  * 用于构建 Perikan 事件的默认选项的类型定义
  *
@@ -42,6 +91,18 @@ export type PerikanEventData<Payload extends object> = z.infer<typeof PerikanEve
 export type PerikanEventDefaultOptions<Payload extends object> = {
     defaultTags?: string[]
     defaultPayload?: Payload
+    /**
+     * 当前负载数据的版本，默认为 1，未携带版本的事件数据视为版本 1
+     *
+     * Version of the current payload, defaults to 1, event data without a version is treated as version 1
+     */
+    version?: number
+    /**
+     * 旧版本负载数据的迁移链，版本必须连续并以当前版本的上一个版本结束，解析旧版本的事件数据时会依次升级到当前版本
+     *
+     * Migration chain of older payload versions, the versions must be contiguous and end at the version before the current one, event data of an older version is upcast step by step to the current version when parsed
+     */
+    migrations?: PerikanEventMigration[]
     /**
      * 缓存配置
      *
@@ -66,6 +127,18 @@ export type PerikanEventCreateOptions<Payload extends object> = {
     tags?: string[]
     from?: number
     to?: number[]
+    /**
+     * 触发该事件的事件，用于自动填充 causationId 与 correlationId
+     *
+     * Event that triggered this event, used to fill causationId and correlationId automatically
+     */
+    causedBy?: PerikanEventData<any>
+    /**
+     * 父 Span 的 W3C traceparent，未提供时沿用触发事件的 traceparent
+     *
+     * W3C traceparent of the parent span, the traceparent of the triggering event is used when not provided
+     */
+    traceparent?: string
 }
 
 /**
@@ -77,6 +150,8 @@ export type PerikanEventCreateOptions<Payload extends object> = {
  */
 export class PerikanEvent<Payload extends object> {
     public readonly eventSchema: z.ZodType<PerikanEventData<Payload>>
+    public readonly version: number
+    private readonly _migrations: PerikanEventMigration[]
     private readonly _parseCache?: LRUCache<bigint, any>
 
     /**
@@ -93,11 +168,31 @@ export class PerikanEvent<Payload extends object> {
         public readonly payloadSchema: z.ZodType<Payload>,
         public readonly opts?: PerikanEventDefaultOptions<Payload>
     ) {
-        this.eventSchema = PerikanEventDataSchema.extend({
-            topic: z.literal(this.topic),
-            payload: this.payloadSchema
+        this.version = this.opts?.version ?? 1
+        if (!Number.isInteger(this.version) || this.version < 1) {
+            throw new RangeError(`Event version must be a positive integer, got ${this.version}`)
+        }
+
+        this._migrations = [...(this.opts?.migrations ?? [])].sort((a, b) => a.version - b.version)
+        // 迁移链必须从最低的版本开始连续地升级到当前版本，即版本依次为 version - n 到 version - 1
+        this._migrations.forEach((migration, i) => {
+            if (!Number.isInteger(migration.version) || migration.version < 1 || migration.version !== this.version - this._migrations.length + i) {
+                const versions = this._migrations.map((migration) => migration.version).join(", ")
+                throw new RangeError(
+                    `Invalid migration version ${migration.version} for event ${this.topic} of version ${this.version}, migrations must form a contiguous chain up to version ${this.version - 1}, got [${versions}]`
+                )
+            }
         })
 
+        this.eventSchema = z.preprocess(
+            (data, ctx) => this._upcast(data, ctx),
+            PerikanEventDataSchema.extend({
+                topic: z.literal(this.topic),
+                version: z.literal(this.version).default(this.version),
+                payload: this.payloadSchema
+            })
+        ) as z.ZodType<PerikanEventData<Payload>>
+
         if (this.opts?.cache?.enabled) {
             this._parseCache = new LRUCache(
                 this.opts.cache.capacity ?? 1000,
@@ -106,6 +201,38 @@ export class PerikanEvent<Payload extends object> {
         }
     }
 
+    /**
+     * 将旧版本的事件数据升级到当前版本，负载数据在每一步迁移前都会通过该版本的模式进行验证
+     *
+     * Upcast event data of an older version to the current version, the payload is validated through the schema of each version before migrating
+     */
+    private _upcast(data: any, ctx: z.core.$RefinementCtx) {
+        if (!data || typeof data !== "object") return data
+
+        const version = data.version ?? 1
+        if (version === this.version) return data
+
+        const index = this._migrations.findIndex((migration) => migration.version === version)
+        if (index === -1) {
+            ctx.addIssue({ code: "custom", message: `Cannot upcast event ${this.topic} from version ${version}`, path: ["version"], input: version })
+            return z.NEVER
+        }
+
+        let payload = data.payload
+        for (const migration of this._migrations.slice(index)) {
+            const result = migration.schema.safeParse(payload)
+            if (!result.success) {
+                for (const issue of result.error.issues) {
+                    ctx.addIssue({ ...issue, path: ["payload", ...issue.path] })
+                }
+                return z.NEVER
+            }
+            payload = migration.up(result.data)
+        }
+
+        return { ...data, version: this.version, payload }
+    }
+
     /**
      * 获取缓存键
      *
@@ -361,7 +488,7 @@ export class PerikanEvent<Payload extends object> {
         // 验证 payload 数据
         await this.parsePayloadAsync(payload)
 
-        return this._buildEventData(perikan, payload, options)
+        return this._buildEventData(perikan, payload, options, await perikan.nextIdAsync())
     }
 
     /**
@@ -417,7 +544,12 @@ export class PerikanEvent<Payload extends object> {
         } else if (
             payloadOrOpts &&
             typeof payloadOrOpts === "object" &&
-            ("payload" in payloadOrOpts || "tags" in payloadOrOpts || "from" in payloadOrOpts || "to" in payloadOrOpts)
+            ("payload" in payloadOrOpts ||
+                "tags" in payloadOrOpts ||
+                "from" in payloadOrOpts ||
+                "to" in payloadOrOpts ||
+                "causedBy" in payloadOrOpts ||
+                "traceparent" in payloadOrOpts)
         ) {
             options = payloadOrOpts as PerikanEventCreateOptions<Payload>
             payload = options.payload
@@ -464,16 +596,28 @@ export class PerikanEvent<Payload extends object> {
      * @param perikan Perikan 实例 Perikan instance
      * @param payload 负载数据 payload data
      * @param options 创建选项 create options
+     * @param id 事件 id，默认同步生成 event id, generated synchronously by default
      * @returns 事件数据对象 event data object
      */
-    private _buildEventData(perikan: Perikan, payload: Payload, options?: PerikanEventCreateOptions<Payload>): PerikanEventData<Payload> {
+    private _buildEventData(
+        perikan: Perikan,
+        payload: Payload,
+        options?: PerikanEventCreateOptions<Payload>,
+        id = perikan.nextId()
+    ): PerikanEventData<Payload> {
+        const causedBy = options?.causedBy
         return {
-            id: perikan.nextId(),
+            id,
             time: Date.now(),
             topic: this.topic,
             from: options?.from ?? perikan.workerId,
             to: options?.to ?? [],
             tags: [...(this.opts?.defaultTags ?? []), ...(options?.tags ?? [])],
+            version: this.version,
+            // 没有触发事件时，事件本身就是关联链的起点
+            correlationId: causedBy ? (causedBy.correlationId ?? causedBy.id) : id,
+            ...(causedBy && { causationId: causedBy.id }),
+            ...((options?.traceparent ?? causedBy?.traceparent) && { traceparent: options?.traceparent ?? causedBy?.traceparent }),
             payload
         }
     }
@@ -489,9 +633,9 @@ export class PerikanEvent<Payload extends object> {
 }
 
 /**
- * 定义一个 Perikan 事件
+ * 定义一个 Perikan 事件，事件会被注册到全局事件目录中
  *
- * Define a Perikan event
+ * Define a Perikan event, the event is registered in the global event catalog
  *
  * @template Payload 事件负载数据的类型 type of the event payload
  * @param topic 事件主题 event topic
@@ -504,5 +648,7 @@ export function definePerikanEvent<Payload extends object = {}>(
     schema: z.ZodType<Payload>,
     opts?: PerikanEventDefaultOptions<Payload>
 ) {
-    return new PerikanEvent(topic, schema, opts)
+    const event = new PerikanEvent(topic, schema, opts)
+    PerikanEventCatalog.register(event)
+    return event
 }
@@ -1,10 +1,159 @@
-import { SnowFlake } from "./snowflake"
-import { PerikanLocalBus, type IPerikanEventBus } from "./bus"
-import type { PerikanEvent, PerikanEventData } from "./event"
+import { BigIntToBase36, SnowFlake, type SnowFlakeOptions, type SnowFlakeParts } from "./snowflake"
+import {
+    PERIKAN_SKIP_DELIVERY,
+    PerikanLocalBus,
+    type EventHandler,
+    type IPerikanEventBus,
+    type PerikanDeliveryReport,
+    type PerikanHandlerResult,
+    type PerikanSubscriptionOptions
+} from "./bus"
+import type { InferEventData, PerikanEvent, PerikanEventCreateOptions, PerikanEventData } from "./event"
+import { matchTopic } from "./topic"
+import { DEFAULT_REQUEST_TIMEOUT, type PerikanRequest, type PerikanRequestOptions } from "./request"
+import { PerikanDeadLetterEvent, type PerikanDeadLetter } from "./retry"
+import { PerikanEventRegistry } from "./registry"
+import { PERIKAN_REPLAY_TAG, isReplayed, type IPerikanEventStore, type PerikanEventQuery } from "./store"
+import { formatTraceparent, parseTraceparent, withSpan, type IPerikanTracer } from "./tracing"
+import type { PerikanDeliveryContext, PerikanInterceptor } from "./interceptor"
+
+// 公开的 API 都从包入口导出，生成的事件模块也从这里导入 definePerikanEvent
+export * from "./bus"
+export * from "./catalog"
+export * from "./codec"
+export * from "./codegen"
+export * from "./event"
+export * from "./interceptor"
+export * from "./matcher"
+export * from "./projection"
+export * from "./registry"
+export * from "./remote"
+export * from "./request"
+export * from "./retry"
+export * from "./router"
+export * from "./saga"
+export * from "./snowflake"
+export * from "./store"
+export * from "./tags"
+export * from "./thread"
+export * from "./topic"
+export * from "./tracing"
 
 export type PerikanOptions = {
     workerId: number
     bus?: IPerikanEventBus
+    /**
+     * ID 生成器的选项
+     *
+     * Options of the ID generator
+     */
+    snowflake?: SnowFlakeOptions
+    /**
+     * 实例级别的错误回调，任何通过当前实例注册的处理器失败或超时时都会被调用
+     *
+     * Instance-wide error callback, invoked whenever a handler registered through this instance fails or times out
+     */
+    onError?: (data: PerikanEventData<any>, error: unknown, result: PerikanHandlerResult) => void
+    /**
+     * 是否在处理器最终失败时发布死信事件，默认为 true
+     *
+     * Whether to publish dead-letter events when a handler finally fails, true by default
+     */
+    deadLetter?: boolean
+    /**
+     * 事件存储，通过当前实例发布的事件 (重放的事件除外) 都会被记录
+     *
+     * Event store, every event published through this instance (except replayed events) is recorded
+     */
+    store?: IPerikanEventStore
+    /**
+     * 追踪器，发布事件、投递给处理器以及处理流的每个步骤都会创建 Span，自定义的总线需要自行配置追踪器
+     *
+     * Tracer, spans are created for publishing events, delivering to handlers and every step of flows, a custom bus has to be configured with the tracer itself
+     */
+    tracer?: IPerikanTracer
+}
+
+/**
+ * 事件发布的结果
+ *
+ * The result of publishing an event
+ *
+ * @template Payload 事件负载数据的类型 type of the event payload
+ */
+export type PerikanEmitResult<Payload extends object> = {
+    /**
+     * 实际发布到总线上的事件数据
+     *
+     * The event data actually published to the bus
+     */
+    data: PerikanEventData<Payload>
+    /**
+     * 总线返回的投递报告
+     *
+     * The delivery report returned by the bus
+     */
+    report: PerikanDeliveryReport
+}
+
+/**
+ * 等待事件的选项
+ *
+ * Options for waiting for an event
+ *
+ * @template Payload 事件负载数据的类型 type of the event payload
+ */
+export type PerikanWaitForOptions<Payload extends object> = {
+    /**
+     * 只有满足条件的事件才会被接收
+     *
+     * Only events satisfying the predicate are accepted
+     */
+    where?: (data: PerikanEventData<Payload>) => boolean
+    /**
+     * 等待的超时时间 (毫秒)，不设置时将一直等待
+     *
+     * Timeout of waiting (milliseconds), waits forever when not set
+     */
+    timeout?: number
+    /**
+     * 用于取消等待的信号
+     *
+     * Signal used to cancel the waiting
+     */
+    signal?: AbortSignal
+}
+
+/**
+ * 重放事件的选项
+ *
+ * Options for replaying events
+ */
+export type PerikanReplayOptions = {
+    /**
+     * 重放的事件存储，默认为实例的事件存储
+     *
+     * Event store to replay from, the store of the instance by default
+     */
+    store?: IPerikanEventStore
+    /**
+     * 每个事件之间的间隔 (毫秒)
+     *
+     * Interval between events (milliseconds)
+     */
+    throttle?: number
+    /**
+     * 用于中止重放的信号
+     *
+     * Signal used to abort the replay
+     */
+    signal?: AbortSignal
+    /**
+     * 跳过主题未在实例上注册的事件时调用的回调，这些事件无法验证，因此不会被重放
+     *
+     * Callback invoked when skipping an event whose topic is not registered on the instance, such events cannot be validated and are not replayed
+     */
+    onSkip?: (data: PerikanEventData<any>) => void
 }
 
 /**
@@ -16,25 +165,524 @@ export class Perikan {
     protected readonly _sf: SnowFlake
     protected readonly bus: IPerikanEventBus
 
+    // 当前实例已知的事件，用于根据主题查找事件定义
+    protected readonly events: PerikanEventRegistry = new PerikanEventRegistry()
+
+    // 通过当前实例注册的处理器，以订阅 id 为键，用于重新投递死信
+    protected readonly subscriptions: Map<string, EventHandler<any>> = new Map()
+
+    // 用于分配订阅 id 的本地计数器，订阅 id 不依赖时钟
+    protected subscriptionCount = 0
+
+    // 按照注册顺序执行的拦截器
+    protected readonly interceptors: PerikanInterceptor[] = []
+
     constructor(public readonly options: PerikanOptions) {
-        this._sf = new SnowFlake(options.workerId)
-        this.bus = options.bus ?? new PerikanLocalBus({ workerId: options.workerId, maxTimeout: 1000 })
+        this._sf = new SnowFlake(options.workerId, options.snowflake)
+        this.bus = options.bus ?? new PerikanLocalBus({ workerId: options.workerId, maxTimeout: 1000, tracer: options.tracer })
     }
 
     get workerId() {
         return this.options.workerId
     }
 
+    get tracer(): IPerikanTracer | undefined {
+        return this.options.tracer
+    }
+
+    /**
+     * 同步生成下一个 ID，需要等待时钟时借用上一次的时间戳而不是阻塞
+     *
+     * Generate the next ID synchronously, borrowing from the last timestamp instead of blocking when it has to wait for the clock
+     */
     nextId(): bigint {
         return this._sf.nextId()
     }
 
+    /**
+     * 异步生成下一个 ID，需要等待时钟时不会阻塞当前线程
+     *
+     * Generate the next ID asynchronously, without blocking the current thread when it has to wait for the clock
+     */
+    nextIdAsync(): Promise<bigint> {
+        return this._sf.nextIdAsync()
+    }
+
+    /**
+     * 解析由当前实例生成的 ID，例如事件数据的 id
+     *
+     * Decode an ID generated by this instance, such as the id of event data
+     */
+    decodeId(id: bigint): SnowFlakeParts {
+        return this._sf.decode(id)
+    }
+
     /**
      * 注册事件处理器
      *
      * Register event handler
      */
-    on<Payload extends object>(event: PerikanEvent<Payload>, handler: (data: PerikanEventData<Payload>) => void | Promise<void>) {
-        return this.bus.on(event, handler)
+    on<Payload extends object>(event: PerikanEvent<Payload>, handler: EventHandler<Payload>, options?: PerikanSubscriptionOptions) {
+        this.register(event)
+        return this._subscribe(handler, options, (handler, options) => this.bus.on(event, handler, options))
+    }
+
+    /**
+     * 注册只执行一次的事件处理器，处理器在第一次接收事件后自动取消注册
+     *
+     * Register an event handler that runs only once, the handler is unregistered automatically after receiving the first event
+     *
+     * @param event 事件 event
+     * @param handler 事件处理器 event handler
+     * @param options 订阅选项 subscription options
+     * @returns 取消注册的函数 function to unregister
+     */
+    once<Payload extends object>(event: PerikanEvent<Payload>, handler: EventHandler<Payload>, options?: PerikanSubscriptionOptions) {
+        // 异步投递时取消注册前可能已经有多个投递在进行中，只有第一个会交给处理器
+        let fired = false
+        const unbind = this.on(
+            event,
+            (data) => {
+                if (fired) return PERIKAN_SKIP_DELIVERY
+                fired = true
+                unbind()
+                return handler(data)
+            },
+            options
+        )
+        return unbind
+    }
+
+    /**
+     * 等待下一个满足条件的事件，在接收事件、超时或取消时自动取消注册
+     *
+     * Wait for the next event satisfying the predicate, unregistering automatically on receipt, timeout or abort
+     *
+     * @param event 事件 event
+     * @param opts 等待的选项 options for waiting
+     * @returns 接收到的事件数据 the received event data
+     */
+    waitFor<Payload extends object>(event: PerikanEvent<Payload>, opts: PerikanWaitForOptions<Payload> = {}): Promise<PerikanEventData<Payload>> {
+        const { where, timeout, signal } = opts
+        if (signal?.aborted) return Promise.reject(signal.reason)
+
+        return new Promise((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout> | undefined
+            const settle = () => {
+                clearTimeout(timer)
+                signal?.removeEventListener("abort", onAbort)
+                unbind()
+            }
+            const onAbort = () => {
+                settle()
+                reject(signal!.reason)
+            }
+
+            const unbind = this.on(event, (data) => {
+                if (where && !where(data)) return
+                settle()
+                resolve(data)
+            })
+            if (timeout !== undefined) {
+                timer = setTimeout(() => {
+                    settle()
+                    reject(new Error(`Waiting for event timed out: ${event.topic}`))
+                }, timeout)
+            }
+            signal?.addEventListener("abort", onAbort)
+        })
+    }
+
+    /**
+     * 注册匹配主题模式的事件处理器，提供事件列表时处理器只会接收这些事件并获得其事件数据的联合类型
+     *
+     * Register an event handler for a topic pattern, when events are provided the handler only receives those events and gets the union of their event data types
+     *
+     * @param pattern 主题模式，`*` 匹配单个分段，`#` 匹配零个或多个分段 topic pattern, `*` matches one segment and `#` matches zero or more segments
+     * @param events 参与匹配的事件 events taking part in the matching
+     * @param handler 事件处理器 event handler
+     * @param options 订阅选项 subscription options
+     * @returns 取消注册的函数 function to unregister
+     */
+    onPattern<Events extends PerikanEvent<any>[]>(
+        pattern: string,
+        events: [...Events],
+        handler: (data: InferEventData<Events[number]>) => ReturnType<EventHandler<any>>,
+        options?: PerikanSubscriptionOptions
+    ): () => void
+    /**
+     * 注册匹配主题模式的事件处理器
+     *
+     * Register an event handler for a topic pattern
+     *
+     * @param pattern 主题模式，`*` 匹配单个分段，`#` 匹配零个或多个分段 topic pattern, `*` matches one segment and `#` matches zero or more segments
+     * @param handler 事件处理器 event handler
+     * @param options 订阅选项 subscription options
+     * @returns 取消注册的函数 function to unregister
+     */
+    onPattern(pattern: string, handler: EventHandler<any>, options?: PerikanSubscriptionOptions): () => void
+    onPattern(
+        pattern: string,
+        eventsOrHandler: PerikanEvent<any>[] | EventHandler<any>,
+        handlerOrOptions?: EventHandler<any> | PerikanSubscriptionOptions,
+        options?: PerikanSubscriptionOptions
+    ): () => void {
+        if (!this.bus.onPattern) throw new Error("The event bus does not support pattern subscriptions")
+        const subscribe = this.bus.onPattern.bind(this.bus, pattern)
+        if (typeof eventsOrHandler === "function") {
+            return this._subscribe(eventsOrHandler, handlerOrOptions as PerikanSubscriptionOptions | undefined, subscribe)
+        }
+        const handler = handlerOrOptions as EventHandler<any>
+
+        const topics = new Set<string>()
+        for (const event of eventsOrHandler) {
+            if (!matchTopic(pattern, event.topic)) throw new Error(`Event topic ${event.topic} does not match pattern ${pattern}`)
+            this.register(event)
+            topics.add(event.topic)
+        }
+
+        // 只将列出的事件交给处理器，以保证处理器的类型信息是可靠的
+        const filtered = (data: PerikanEventData<any>) => {
+            if (topics.has(data.topic)) return handler(data)
+        }
+        return this._subscribe(filtered, options, subscribe)
+    }
+
+    /**
+     * 创建并发布事件
+     *
+     * Create and emit an event
+     *
+     * @param event 事件 event
+     * @param payload 事件负载数据 event payload data
+     * @param opts 用于创建事件的选项 options for creating the event
+     * @returns 发布结果 emit result
+     */
+    emit<Payload extends object>(
+        event: PerikanEvent<Payload>,
+        payload: Payload,
+        opts?: PerikanEventCreateOptions<Payload>
+    ): Promise<PerikanEmitResult<Payload>>
+    /**
+     * 创建并发布事件
+     *
+     * Create and emit an event
+     *
+     * @param event 事件 event
+     * @param opts 用于创建事件的选项 options for creating the event
+     * @returns 发布结果 emit result
+     */
+    emit<Payload extends object>(event: PerikanEvent<Payload>, opts?: PerikanEventCreateOptions<Payload>): Promise<PerikanEmitResult<Payload>>
+    async emit<Payload extends object>(
+        event: PerikanEvent<Payload>,
+        payloadOrOpts?: Payload | PerikanEventCreateOptions<Payload>,
+        opts?: PerikanEventCreateOptions<Payload>
+    ): Promise<PerikanEmitResult<Payload>> {
+        // 通过事件定义构建并验证事件数据
+        const data = await event.createAsync(this, payloadOrOpts as Payload, opts)
+        return this._dispatch(event, data)
+    }
+
+    /**
+     * 发布已构建的事件数据，事件定义将根据主题从已知的事件中查找
+     *
+     * Publish prebuilt event data, the event definition is looked up from the known events by topic
+     *
+     * @param eventData 事件数据 event data
+     * @returns 发布结果 emit result
+     */
+    publish<Payload extends object = any>(eventData: PerikanEventData<Payload>): Promise<PerikanEmitResult<Payload>>
+    /**
+     * 发布已构建的事件数据
+     *
+     * Publish prebuilt event data
+     *
+     * @param event 事件 event
+     * @param eventData 事件数据 event data
+     * @returns 发布结果 emit result
+     */
+    publish<Payload extends object>(event: PerikanEvent<Payload>, eventData: PerikanEventData<Payload>): Promise<PerikanEmitResult<Payload>>
+    async publish<Payload extends object>(
+        eventOrData: PerikanEvent<Payload> | PerikanEventData<Payload>,
+        eventData?: PerikanEventData<Payload>
+    ): Promise<PerikanEmitResult<Payload>> {
+        let event: PerikanEvent<Payload> | undefined
+        if (eventData === undefined) {
+            eventData = eventOrData as PerikanEventData<Payload>
+            event = this.events.get(eventData.topic)
+            if (!event) throw new Error(`Unknown event topic: ${eventData.topic}`)
+        } else {
+            event = eventOrData as PerikanEvent<Payload>
+        }
+
+        // 发布前验证事件数据，无效的数据将直接抛出错误
+        const data: PerikanEventData<Payload> = await event.parseAsync(eventData)
+        return this._dispatch(event, data)
+    }
+
+    /**
+     * 发起请求并等待回复，没有响应方、超时或响应方出错时将拒绝
+     *
+     * Send a request and wait for the reply, rejects when there is no responder, on timeout or when the responder fails
+     *
+     * @param request 请求 request
+     * @param payload 请求负载数据 request payload data
+     * @param opts 用于发起请求的选项 options for sending the request
+     * @returns 响应数据 response
+     */
+    async request<Request extends object, Response>(
+        request: PerikanRequest<Request, Response>,
+        payload: Request,
+        opts?: PerikanRequestOptions<Request>
+    ): Promise<Response> {
+        // 通配符订阅者 (例如日志) 不会响应请求，因此只计算精确订阅请求主题的处理器
+        if (this.bus.hasListeners?.(request.topic, true) === false) throw new Error(`No responder registered for topic: ${request.topic}`)
+
+        const data = await request.request.createAsync(this, payload, opts ?? {})
+
+        // 在发送请求前开始等待回复，以免错过同步完成的响应
+        const controller = new AbortController()
+        const reply = this.waitFor(request.reply, {
+            where: (reply) => reply.payload.requestId === data.id,
+            timeout: opts?.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+            signal: controller.signal
+        })
+        this._dispatch(request.request, data).catch((err) => controller.abort(err))
+
+        const { payload: result } = await reply
+        if (!result.ok) throw new Error(result.error)
+        return result.result
+    }
+
+    /**
+     * 注册请求的响应方，响应函数的返回值将作为回复发送给请求方
+     *
+     * Register a responder for the request, the return value of the responder is sent back to the requester as the reply
+     *
+     * @param request 请求 request
+     * @param handler 响应函数 responder function
+     * @returns 取消注册的函数 function to unregister
+     */
+    respond<Request extends object, Response>(
+        request: PerikanRequest<Request, Response>,
+        handler: (data: PerikanEventData<Request>) => Response | Promise<Response>
+    ) {
+        return this.on(request.request, (data) => request.respond(this, data, () => handler(data)))
+    }
+
+    /**
+     * 将死信中的原始事件数据重新投递给失败的订阅，如果该订阅已经被取消则重新发布到总线上
+     *
+     * Redeliver the original event data of a dead letter to the failed subscription, or republish it to the bus if the subscription has been removed
+     *
+     * @param deadLetter 死信事件数据 dead-letter event data
+     */
+    async redeliver(deadLetter: PerikanEventData<PerikanDeadLetter>): Promise<void> {
+        const { original, subscriptionId } = deadLetter.payload
+        const handler = this.subscriptions.get(subscriptionId)
+        if (!handler) {
+            await this.publish(original)
+            return
+        }
+
+        // 重新投递前仍然需要验证原始事件数据
+        const event = this.events.get(original.topic)
+        await handler(event ? await event.parseAsync(original) : original)
+    }
+
+    /**
+     * 将事件存储中的一部分事件重新发布，重放的事件会带有重放标签且不会被再次记录
+     *
+     * Republish a slice of the events in the event store, replayed events carry the replay tag and are not recorded again
+     *
+     * 主题未在实例上注册的事件会被跳过并交给 onSkip，不会中止重放
+     *
+     * Events whose topic is not registered on the instance are skipped and handed to onSkip without aborting the replay
+     *
+     * @param query 查询条件 query
+     * @param opts 重放的选项 options for replaying
+     * @returns 重放的事件数量 number of replayed events
+     */
+    async replay(query: PerikanEventQuery = {}, opts: PerikanReplayOptions = {}): Promise<number> {
+        const store = opts.store ?? this.options.store
+        if (!store) throw new Error("No event store configured")
+
+        let count = 0
+        for await (const data of store.query(query)) {
+            opts.signal?.throwIfAborted()
+            const event = this.events.get(data.topic)
+            if (!event) {
+                opts.onSkip?.(data)
+                continue
+            }
+            if (count > 0 && opts.throttle) await new Promise((resolve) => setTimeout(resolve, opts.throttle))
+            await this.publish(event, { ...data, tags: isReplayed(data) ? data.tags : [...data.tags, PERIKAN_REPLAY_TAG] })
+            count++
+        }
+        return count
+    }
+
+    /**
+     * 注册实例级别的拦截器，拦截器按照注册的顺序执行
+     *
+     * Register an instance-wide interceptor, interceptors run in the order they were registered
+     *
+     * @param interceptor 拦截器 interceptor
+     * @returns 用于移除拦截器的函数 function removing the interceptor
+     */
+    use(interceptor: PerikanInterceptor): () => void {
+        this.interceptors.push(interceptor)
+        return () => {
+            const index = this.interceptors.indexOf(interceptor)
+            if (index !== -1) this.interceptors.splice(index, 1)
+        }
+    }
+
+    /**
+     * 注册事件定义，使其可以通过主题被查找
+     *
+     * Register an event definition so that it can be looked up by topic
+     *
+     * @param event 事件 event
+     */
+    register(event: PerikanEvent<any>) {
+        this.events.register(event)
+        return this
+    }
+
+    /**
+     * 将事件数据交给总线分发
+     *
+     * Hand the event data to the bus for dispatching
+     */
+    private async _dispatch<Payload extends object>(
+        event: PerikanEvent<Payload>,
+        data: PerikanEventData<Payload>
+    ): Promise<PerikanEmitResult<Payload>> {
+        this.register(event)
+
+        for (const interceptor of [...this.interceptors]) {
+            const result = await interceptor.beforeEmit?.(data, event)
+            if (result === false) return { data, report: { topic: event.topic, accepted: false, results: [] } }
+            if (result) data = result
+        }
+
+        // 事件数据携带发布 Span 的 traceparent，使处理器 (包括远程总线上的处理器) 的 Span 延续同一个追踪
+        const span = this.tracer?.startSpan(`publish ${event.topic}`, {
+            kind: "producer",
+            parent: parseTraceparent(data.traceparent),
+            attributes: {
+                "messaging.system": "perikan",
+                "messaging.operation.type": "publish",
+                "messaging.destination.name": event.topic,
+                "messaging.message.id": String(data.id)
+            }
+        })
+        if (span) data = { ...data, traceparent: formatTraceparent(span.spanContext()) }
+
+        const dispatch = async () => {
+            if (this.options.store && !isReplayed(data)) await this.options.store.append(data)
+            // 没有返回投递报告的总线视为已接收事件
+            const report = (await this.bus.emit(event, data)) ?? { topic: data.topic, accepted: true, results: [] }
+            span?.setAttribute("perikan.delivery.accepted", report.accepted).setAttribute("perikan.delivery.handlers", report.results.length)
+            return { data, report }
+        }
+        return span ? withSpan(span, dispatch) : dispatch()
+    }
+
+    /**
+     * 为处理器分配订阅 id 并记录，然后将经过拦截器包装的处理器通过总线订阅
+     *
+     * Assign a subscription id to the handler and record it, then subscribe the handler wrapped by the interceptors through the bus
+     */
+    private _subscribe(
+        handler: EventHandler<any>,
+        options: PerikanSubscriptionOptions | undefined,
+        subscribe: (handler: EventHandler<any>, options: PerikanSubscriptionOptions) => () => void
+    ): () => void {
+        const subscriptionId = BigIntToBase36(BigInt(++this.subscriptionCount))
+        const intercepted = this._intercept(handler, { subscriptionId })
+        // 总线拒绝订阅 (例如无效的标签选择器) 时不记录处理器
+        const unbind = subscribe(intercepted, this._subscriptionOptions(subscriptionId, options))
+        this.subscriptions.set(subscriptionId, intercepted)
+        return () => {
+            this.subscriptions.delete(subscriptionId)
+            unbind()
+        }
+    }
+
+    /**
+     * 在处理器之前运行拦截器的 beforeDeliver 阶段
+     *
+     * Run the beforeDeliver phase of the interceptors before the handler
+     */
+    private _intercept(handler: EventHandler<any>, context: PerikanDeliveryContext): EventHandler<any> {
+        return (received) => {
+            const interceptors = this.interceptors.filter((interceptor) => interceptor.beforeDeliver)
+            // 没有拦截器时保持处理器原本的同步行为
+            if (interceptors.length === 0) return handler(received)
+            return (async () => {
+                let data = received
+                for (const interceptor of interceptors) {
+                    const result = await interceptor.beforeDeliver!(data, context)
+                    // 被否决的投递以 skipped 状态报告
+                    if (result === false) return PERIKAN_SKIP_DELIVERY
+                    if (result) data = result
+                }
+                return handler(data)
+            })()
+        }
+    }
+
+    /**
+     * 将实例级别的错误回调与死信合并到订阅选项中
+     *
+     * Merge the instance-wide error callback and dead letters into the subscription options
+     */
+    private _subscriptionOptions(subscriptionId: string, options: PerikanSubscriptionOptions = {}): PerikanSubscriptionOptions {
+        return {
+            ...options,
+            onSettled: (data, result) => {
+                options.onSettled?.(data, result)
+                if (result.status === "skipped") return
+                for (const interceptor of [...this.interceptors]) {
+                    // 拦截器自身的异常不应影响投递
+                    Promise.resolve()
+                        .then(() => interceptor.afterDeliver?.(data, result, { subscriptionId }))
+                        .catch(() => {})
+                }
+            },
+            onError: (data, error, result) => {
+                // 订阅的错误回调抛出异常时仍然需要调用实例级别的错误回调并产生死信
+                try {
+                    options.onError?.(data, error, result)
+                } catch {}
+                try {
+                    this.options.onError?.(data, error, result)
+                } catch {}
+
+                // 死信事件的处理器失败时不再产生死信，避免无限循环
+                if (this.options.deadLetter === false || data.topic === PerikanDeadLetterEvent.topic) return
+                const deadLetter: PerikanDeadLetter = {
+                    original: data,
+                    subscriptionId,
+                    status: result.status === "timeout" ? "timeout" : "rejected",
+                    error: error instanceof Error ? error.message : String(error),
+                    attempts: result.attempts,
+                    failedAt: Date.now()
+                }
+                // 死信发布失败 (例如被拦截器否决或存储写入失败) 时交给实例级别的错误回调
+                this.emit(PerikanDeadLetterEvent, deadLetter, { causedBy: data })
+                    .then(({ report }) => {
+                        if (!report.accepted) throw new Error(`Dead letter of ${data.topic} was not accepted`)
+                    })
+                    .catch((cause) => {
+                        const error = new Error(`Failed to publish the dead letter of ${data.topic}`, { cause })
+                        try {
+                            this.options.onError?.(data, error, result)
+                        } catch {}
+                    })
+            }
+        }
     }
 }
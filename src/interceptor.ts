@@ -0,0 +1,50 @@
+import type { PerikanHandlerResult } from "./bus"
+import type { PerikanEvent, PerikanEventData } from "./event"
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * 投递阶段的拦截器上下文
+ *
+ * Interceptor context of the delivery phases
+ */
+export type PerikanDeliveryContext = {
+    /**
+     * 接收事件的订阅的 id
+     *
+     * Id of the subscription receiving the event
+     */
+    subscriptionId: string
+}
+
+/**
+ * 实例级别的拦截器，作用于通过同一个 Perikan 实例发布的所有事件以及注册的所有处理器 (包括处理流)
+ *
+ * Instance-wide interceptor, applied to every event published and every handler (flows included) registered through the same Perikan instance
+ */
+export type PerikanInterceptor = {
+    /**
+     * 拦截器的名称
+     *
+     * Name of the interceptor
+     */
+    name?: string
+    /**
+     * 在事件被记录与分发之前调用，返回事件数据时替换原事件数据，返回 false 时否决该事件
+     *
+     * Called before the event is recorded and dispatched, returning event data replaces the original one, returning false vetoes the event
+     */
+    beforeEmit?: (data: PerikanEventData<any>, event: PerikanEvent<any>) => MaybePromise<PerikanEventData<any> | false | void>
+    /**
+     * 在事件被交给处理器之前调用，返回事件数据时替换处理器收到的事件数据，返回 false 时跳过该处理器，投递结果的状态为 skipped
+     *
+     * Called before the event is handed to a handler, returning event data replaces the event data the handler receives, returning false skips the handler and the status of the delivery result is skipped
+     */
+    beforeDeliver?: (data: PerikanEventData<any>, context: PerikanDeliveryContext) => MaybePromise<PerikanEventData<any> | false | void>
+    /**
+     * 在投递完成 (包括重试) 之后调用，被 beforeDeliver 跳过的投递不会调用
+     *
+     * Called after the delivery completes (retries included), deliveries skipped by beforeDeliver are not reported
+     */
+    afterDeliver?: (data: PerikanEventData<any>, result: PerikanHandlerResult, context: PerikanDeliveryContext) => MaybePromise<void>
+}
@@ -1,6 +1,10 @@
-import type { Perikan } from "."
-import type { EventHandler } from "./bus"
-import type { PerikanEvent, PerikanEventData } from "./event"
+import type z from "zod"
+import type { Perikan, PerikanEmitResult } from "."
+import type { EventHandler, PerikanSubscriptionOptions } from "./bus"
+import type { InferPayload, PerikanEvent, PerikanEventCreateOptions, PerikanEventData } from "./event"
+import type { PerikanRequest } from "./request"
+import { computeRetryDelay, shouldRetry, type PerikanRetryPolicy } from "./retry"
+import { formatTraceparent, parseTraceparent, withSpan, type IPerikanSpan } from "./tracing"
 
 /**
  * Perikan 的基础处理流上下文类型定义，可以通过扩展 Extra 类型来扩充类型信息
@@ -16,8 +20,32 @@ export type FlowContext<Payload extends object, Extra extends object = {}> = {
     readonly topic: string
     readonly data: PerikanEventData<Payload>
     readonly payload: Payload
+    /**
+     * 发布由当前事件触发的后续事件，causationId 与 correlationId 会被自动填充
+     *
+     * Emit a follow-up event triggered by the current event, causationId and correlationId are filled automatically
+     */
+    readonly emit: FlowEmitFn
 } & Extra
 
+/**
+ * 处理流上下文中发布后续事件的函数类型定义
+ *
+ * Type definition of the function emitting follow-up events in the flow context
+ */
+export type FlowEmitFn = <Payload extends object>(
+    event: PerikanEvent<Payload>,
+    payload: Payload,
+    opts?: PerikanFlowEmitOptions<Payload>
+) => Promise<PerikanEmitResult<Payload>>
+
+/**
+ * 在处理流中发布后续事件的选项
+ *
+ * Options for emitting follow-up events in a flow
+ */
+export type PerikanFlowEmitOptions<Payload extends object> = Omit<PerikanEventCreateOptions<Payload>, "payload" | "causedBy">
+
 /**
  * 处理流管道函数类型定义
  *
@@ -29,13 +57,98 @@ export type FlowContext<Payload extends object, Extra extends object = {}> = {
  * @returns 添加的属性对象 added properties object
  */
 export type PipeFn<Payload extends object, Extra extends object = {}, Added extends object = {}> = (
-    ctx: FlowContext<Payload, Extra>
+    ctx: FlowContext<Payload, Extra>,
+    signal: AbortSignal
 ) => Added | Promise<Added> | void | Promise<void> | boolean | Promise<boolean>
 
 // 补充：PipeFn 可以有多种返回值，不同的返回值有不同的语义：
 // - 返回一个对象时将其作为处理流上下文的属性扩展
 // - 返回 void 时表示不进行任何操作，进入下一个中间件
 // - 返回 boolean 时表示是否继续执行下一个中间件，false 表示不继续执行
+// 第二个参数 signal 会在步骤超时时被中止
+
+/**
+ * 处理流步骤的选项
+ *
+ * Options of a flow step
+ */
+export type PerikanFlowStepOptions = {
+    /**
+     * 步骤的名称，步骤失败时会在 catch 中提供，默认为函数的名称
+     *
+     * Name of the step, provided to catch when the step fails, the name of the function by default
+     */
+    name?: string
+    /**
+     * 单次尝试的超时时间 (毫秒)，超时时传递给步骤的 signal 会被中止
+     *
+     * Timeout of a single attempt in milliseconds, the signal passed to the step is aborted on timeout
+     */
+    timeout?: number
+    /**
+     * 步骤失败或超时时的重试策略
+     *
+     * Retry policy when the step fails or times out
+     */
+    retry?: PerikanRetryPolicy
+}
+
+/**
+ * 失败的处理流步骤的信息
+ *
+ * Information about the failed flow step
+ */
+export type PerikanFlowStepInfo = {
+    name?: string
+    /**
+     * 步骤在所在处理流中的位置
+     *
+     * Position of the step in its flow
+     */
+    index: number
+    attempts: number
+}
+
+type PerikanFlowStep<Payload extends object, Extra extends object> = PerikanFlowStepOptions & { fn: PipeFn<Payload, Extra, any> }
+
+// 记录上下文中的错误来自哪个步骤，使分支中的错误在主处理流的 catch 中仍然指向最内层的步骤
+const failedSteps = new WeakMap<object, PerikanFlowStepInfo>()
+
+// 上下文经过的处理流 (包括分支) 的 finally，在顶层的上下文结束时各运行一次
+const finalizers = new WeakMap<object, Set<(ctx: any) => void | Promise<void>>>()
+
+// 记录上下文当前所在的 Span，步骤的 Span 与 ctx.emit 发布的事件都以它为父 Span
+const activeSpans = new WeakMap<object, IPerikanSpan>()
+
+// 时间相关步骤暂存上下文时返回的哨兵值，处理流停止执行但不视为结束，finally 会在上下文恢复执行后运行
+const DEFERRED = Symbol("deferred")
+
+// 被时间相关步骤暂存的上下文
+const heldContexts = new WeakSet<object>()
+
+// 被批次或窗口吸收的上下文，它们的 finally 在携带它们的上下文结束时运行
+const absorbedContexts = new WeakMap<object, object[]>()
+
+// 窗口步骤创建的上下文副本，副本本身不运行 finally，原始上下文在离开所有窗口后运行
+const detachedContexts = new WeakSet<object>()
+
+// 上下文被暂存时经过的处理流与所在的步骤 (由外向内)，恢复时从顶层的处理流沿着分支回到暂存的位置
+type FlowTrail = { flow: PerikanFlow<any, any>; index: number }[]
+const trails = new WeakMap<object, FlowTrail>()
+
+// 正在恢复的上下文还需要经过的分支，分支步骤依次取出并回到暂存时所在的子处理流
+const resuming = new WeakMap<object, FlowTrail>()
+
+type Timer = ReturnType<typeof setTimeout>
+
+const clearTimers = (timers: Map<unknown, Timer>) => {
+    timers.forEach((timer) => clearTimeout(timer))
+    timers.clear()
+}
+
+const assertDuration = (step: string, ms: number) => {
+    if (!(Number.isFinite(ms) && ms > 0)) throw new RangeError(`Flow ${step} duration must be a positive number of milliseconds, got ${ms}`)
+}
 
 /**
  * 创建处理流上下文
@@ -45,15 +158,250 @@ export type PipeFn<Payload extends object, Extra extends object = {}, Added exte
  * @template Payload 事件负载类型 event payload type
  * @param perikan Perikan 实例
  * @param eventData 事件数据 event data
+ * @param flowId 处理流 id，默认同步生成 flow id, generated synchronously by default
  * @returns 处理流上下文 flow context
  */
-export function createFlowContext<Payload extends object>(perikan: Perikan, eventData: PerikanEventData<Payload>): FlowContext<Payload> {
-    return {
-        flowId: perikan.nextId(),
+export function createFlowContext<Payload extends object>(
+    perikan: Perikan,
+    eventData: PerikanEventData<Payload>,
+    flowId = perikan.nextId()
+): FlowContext<Payload> {
+    const ctx = {
+        flowId,
         perikan: perikan,
         topic: eventData.topic,
         data: eventData,
         payload: eventData.payload
+    } as FlowContext<Payload>
+    return Object.assign(ctx, { emit: bindEmit(ctx) })
+}
+
+/**
+ * 创建以给定上下文当前所在的 Span 为父 Span 发布后续事件的函数
+ *
+ * Create the function emitting follow-up events with the current span of the given context as the parent span
+ */
+function bindEmit(ctx: FlowContext<any, any>): FlowEmitFn {
+    return (event, payload, opts) => {
+        const span = activeSpans.get(ctx)
+        return ctx.perikan.emit(event, payload, {
+            ...(span && { traceparent: formatTraceparent(span.spanContext()) }),
+            ...opts,
+            causedBy: ctx.data
+        })
+    }
+}
+
+/**
+ * 复制上下文并添加属性，副本继承原始上下文当前所在的 Span 与暂存的位置，并以自己的 Span 发布后续事件
+ *
+ * Copy the context with added properties, the copy inherits the current span and the held position of the original context and emits follow-up events with its own span
+ */
+function copyFlowContext<Ctx extends FlowContext<any>, Added extends object>(ctx: Ctx, added: Added): Ctx & Added {
+    const copy = { ...ctx, ...added }
+    const span = activeSpans.get(ctx)
+    if (span) activeSpans.set(copy, span)
+    const trail = trails.get(ctx)
+    if (trail) trails.set(copy, trail)
+    return Object.assign(copy, { emit: bindEmit(copy) })
+}
+
+/**
+ * 为一个或多个事件创建处理流，处理流的负载类型为这些事件负载类型的联合
+ *
+ * Create a flow for one or more events, the payload type of the flow is the union of the payload types of those events
+ *
+ * @param perikan Perikan 实例 Perikan instance
+ * @param events 处理流订阅的事件 events subscribed by the flow
+ * @returns 处理流 flow
+ */
+export function createFlow<Events extends PerikanEvent<any>[]>(perikan: Perikan, ...events: Events): PerikanFlow<InferPayload<Events[number]>> {
+    return new PerikanFlow<InferPayload<Events[number]>>(perikan, ...events)
+}
+
+/**
+ * 分支步骤的选项
+ *
+ * Options of branching steps
+ */
+export type PerikanFlowBranchOptions = {
+    /**
+     * 分支执行完成后是否回到主处理流继续执行后续步骤，默认为 false，即分支执行完成后处理流结束
+     *
+     * Whether to rejoin the main flow and run the following steps after the branch completes, false by default, which ends the flow after the branch
+     */
+    rejoin?: boolean
+}
+
+/**
+ * where 步骤的选项
+ *
+ * Options of the where step
+ *
+ * @template Payload 事件负载类型 event payload type
+ * @template Extra 扩展类型 extra type
+ */
+export type PerikanFlowWhereOptions<Payload extends object, Extra extends object = {}> = {
+    /**
+     * 不满足条件的上下文进入的子处理流，未提供时这些上下文会被丢弃
+     *
+     * Sub-flow receiving the contexts that do not satisfy the condition, those contexts are dropped when not provided
+     */
+    otherwise?: BranchBuilder<Payload, Extra>
+}
+
+// where 步骤的条件，zod 模式或类型守卫
+type WhereCondition = z.ZodType | ((value: any) => boolean)
+
+/**
+ * 根据判别属性的值收窄事件负载类型
+ *
+ * Narrow the event payload type by the value of a discriminant property
+ *
+ * @template Payload 事件负载类型 event payload type
+ * @template Key 判别属性 discriminant property
+ * @template Value 判别属性的值 value of the discriminant property
+ */
+export type NarrowPayload<Payload, Key extends keyof Payload, Value> = Payload extends any
+    ? Payload[Key] extends Value
+        ? Payload
+        : Value extends Payload[Key]
+          ? Payload & Record<Key, Value>
+          : never
+    : never
+
+/**
+ * batch 步骤的选项，size 与 maxWait 至少需要提供一个
+ *
+ * Options of the batch step, at least one of size and maxWait must be provided
+ *
+ * @template Payload 事件负载类型 event payload type
+ * @template Extra 扩展类型 extra type
+ */
+export type PerikanFlowBatchOptions<Payload extends object, Extra extends object = {}> = {
+    /**
+     * 批次的最大长度，达到时立即交给后续步骤
+     *
+     * Maximum length of a batch, handed to the following steps as soon as it is reached
+     */
+    size?: number
+    /**
+     * 批次中第一个上下文的最长等待时间 (毫秒)，超过时将未满的批次交给后续步骤
+     *
+     * Maximum waiting time of the first context in a batch in milliseconds, the partial batch is handed to the following steps once exceeded
+     */
+    maxWait?: number
+    /**
+     * 分组函数，不同分组的上下文分别成批
+     *
+     * Grouping function, contexts of different groups are batched separately
+     */
+    key?: (ctx: FlowContext<Payload, Extra>) => unknown
+}
+
+/**
+ * window 步骤的选项
+ *
+ * Options of the window step
+ *
+ * @template Payload 事件负载类型 event payload type
+ * @template Extra 扩展类型 extra type
+ */
+export type PerikanFlowWindowOptions<Payload extends object, Extra extends object = {}> = {
+    /**
+     * 窗口的长度 (毫秒)
+     *
+     * Length of the window in milliseconds
+     */
+    size: number
+    /**
+     * 相邻窗口的间隔 (毫秒)，小于 size 时为滑动窗口，默认等于 size，即滚动窗口
+     *
+     * Interval between adjacent windows in milliseconds, a sliding window when less than size, equal to size by default, which is a tumbling window
+     */
+    slide?: number
+    /**
+     * 分组函数，不同分组的上下文分别开窗
+     *
+     * Grouping function, contexts of different groups are windowed separately
+     */
+    key?: (ctx: FlowContext<Payload, Extra>) => unknown
+}
+
+// 分支构建函数，接收一个新的子处理流并返回构建完成的子处理流
+type BranchBuilder<Payload extends object, Extra extends object> = (flow: PerikanFlow<Payload, Extra>) => PerikanFlow<any, any>
+
+/**
+ * 处理流的分支匹配器，按照添加的顺序选择第一个匹配的分支
+ *
+ * Branch matcher of the flow, selecting the first matching branch in the order they were added
+ *
+ * @template Payload 事件负载类型 event payload type
+ * @template Extra 扩展类型 extra type
+ */
+export class PerikanFlowMatch<Payload extends object, Extra extends object = {}> {
+    protected readonly branches: { predicate: (ctx: FlowContext<Payload, Extra>) => boolean; flow: PerikanFlow<any, any> }[] = []
+    protected fallback?: PerikanFlow<any, any>
+
+    constructor(protected readonly perikan: Perikan) {}
+
+    /**
+     * 添加一个匹配指定事件的分支，子处理流中的负载类型被收窄为该事件的负载类型
+     *
+     * Add a branch matching the given event, the payload type in the sub-flow is narrowed to the payload of that event
+     *
+     * @param event 要匹配的事件 event to match
+     * @param build 分支构建函数 branch builder
+     */
+    when<Narrowed extends Payload>(event: PerikanEvent<Narrowed>, build: BranchBuilder<Narrowed, Extra>): this
+    /**
+     * 添加一个在断言成立时执行的分支
+     *
+     * Add a branch running when the predicate holds
+     *
+     * @param predicate 断言 predicate
+     * @param build 分支构建函数 branch builder
+     */
+    when(predicate: (ctx: FlowContext<Payload, Extra>) => boolean, build: BranchBuilder<Payload, Extra>): this
+    when(eventOrPredicate: PerikanEvent<any> | ((ctx: FlowContext<Payload, Extra>) => boolean), build: BranchBuilder<any, Extra>) {
+        const predicate =
+            typeof eventOrPredicate === "function" ? eventOrPredicate : (ctx: FlowContext<Payload, Extra>) => ctx.topic === eventOrPredicate.topic
+        this.branches.push({ predicate, flow: build(new PerikanFlow(this.perikan)) })
+        return this
+    }
+
+    /**
+     * 设置没有任何分支匹配时执行的分支
+     *
+     * Set the branch running when no other branch matches
+     *
+     * @param build 分支构建函数 branch builder
+     */
+    otherwise(build: BranchBuilder<Payload, Extra>) {
+        this.fallback = build(new PerikanFlow(this.perikan))
+        return this
+    }
+
+    /**
+     * 选择与上下文匹配的子处理流
+     *
+     * Select the sub-flow matching the context
+     *
+     * @param ctx 处理流上下文 flow context
+     * @returns 匹配的子处理流，如果没有匹配的分支则返回 undefined the matching sub-flow, or undefined if no branch matches
+     */
+    select(ctx: FlowContext<Payload, Extra>): PerikanFlow<any, any> | undefined {
+        return this.branches.find((branch) => branch.predicate(ctx))?.flow ?? this.fallback
+    }
+
+    /**
+     * 获取所有分支的子处理流
+     *
+     * Get the sub-flows of every branch
+     */
+    flows(): PerikanFlow<any, any>[] {
+        const flows = this.branches.map((branch) => branch.flow)
+        return this.fallback ? [...flows, this.fallback] : flows
     }
 }
 
@@ -68,12 +416,17 @@ export function createFlowContext<Payload extends object>(perikan: Perikan, even
 export class PerikanFlow<Payload extends object, Extra extends object = {}> {
     protected readonly events: PerikanEvent<Payload>[]
 
-    protected catchFn?: (ctx: FlowContext<Payload, Extra>, err?: any) => void | Promise<void>
-    protected pipeFn: PipeFn<Payload, Extra>[] = []
+    protected catchFn?: (ctx: FlowContext<Payload, Extra>, err: any, info: PerikanFlowStepInfo) => void | Promise<void>
+    protected finallyFn?: (ctx: FlowContext<Payload, Extra>) => void | Promise<void>
+    protected steps: PerikanFlowStep<Payload, Extra>[] = []
+
+    // 时间相关步骤的清理函数，以及分支中的子处理流，在 dispose 时一并清理
+    protected readonly disposers: (() => void)[] = []
+    protected readonly children: PerikanFlow<any, any>[] = []
 
     constructor(
         protected readonly perikan: Perikan,
-        ...events: (Payload extends any ? PerikanEvent<Payload> : never)[]
+        ...events: (PerikanEvent<Payload> | (Payload extends any ? PerikanEvent<Payload> : never))[]
     ) {
         this.events = events
     }
@@ -81,56 +434,640 @@ export class PerikanFlow<Payload extends object, Extra extends object = {}> {
     build(): EventHandler<Payload> {
         return async (eventData: PerikanEventData<Payload>) => {
             // 通过事件数据初始化处理流上下文
-            const ctx = createFlowContext(this.perikan, eventData) as FlowContext<Payload, Extra>
-            // 运行中间件链
+            const ctx = createFlowContext(this.perikan, eventData, await this.perikan.nextIdAsync()) as FlowContext<Payload, Extra>
+
+            const span = this.perikan.tracer?.startSpan(`flow ${eventData.topic}`, {
+                parent: parseTraceparent(eventData.traceparent),
+                attributes: { "perikan.flow.id": String(ctx.flowId) }
+            })
+            if (!span) return this.execute(ctx)
+
+            activeSpans.set(ctx, span)
+            await withSpan(span, () => this.execute(ctx))
+        }
+    }
+
+    /**
+     * 以顶层处理流的身份在上下文上运行中间件链，上下文没有被暂存时结束上下文
+     *
+     * Run the middleware chain on the context as the top-level flow, ending the context unless it was held
+     *
+     * @param ctx 处理流上下文 flow context
+     * @param startIndex 开始运行的步骤 step to start from
+     */
+    protected async execute(ctx: FlowContext<Payload, Extra>, startIndex = 0) {
+        heldContexts.delete(ctx)
+        trails.delete(ctx)
+        try {
+            await this.run(ctx, startIndex)
+        } finally {
+            failedSteps.delete(ctx)
+            resuming.delete(ctx)
+            if (!heldContexts.has(ctx)) await this.finalize(ctx)
+        }
+    }
+
+    /**
+     * 在给定的上下文上从指定的步骤开始运行中间件链
+     *
+     * Run the middleware chain on the given context starting from the given step
+     *
+     * @param ctx 处理流上下文 flow context
+     * @param startIndex 开始运行的步骤 step to start from
+     * @returns 中间件链是否完整地执行完毕 whether the middleware chain ran to completion
+     */
+    protected async run(ctx: FlowContext<Payload, Extra>, startIndex = 0): Promise<boolean> {
+        let current: PerikanFlowStepInfo = { index: startIndex, attempts: 0 }
+        if (this.finallyFn) {
+            const fns = finalizers.get(ctx) ?? new Set()
+            finalizers.set(ctx, fns.add(this.finallyFn))
+        }
+        try {
+            // 中间件链按顺序执行以保证类型信息的安全
+            for (let index = startIndex; index < this.steps.length; index++) {
+                const step = this.steps[index]!
+                current = { name: step.name, index, attempts: 0 }
+                // 由于上下文的类型信息是静态的，但是实际上的数据类型是动态累积的
+                const result = await this.runStep(step, ctx, current)
+                if (result === DEFERRED) {
+                    heldContexts.add(ctx)
+                    trails.set(ctx, [{ flow: this, index }, ...(trails.get(ctx) ?? [])])
+                }
+                if (result === false || result === DEFERRED) return false
+                // 如果 result 是一个对象，则将其合并到上下文中
+                if (result && typeof result === "object" && !Array.isArray(result)) {
+                    Object.assign(ctx, result)
+                }
+            }
+            return true
+        } catch (err) {
+            // 错误已经在分支中记录时保留最内层的步骤
+            const info = failedSteps.get(ctx) ?? current
+            // 如果提供了 catchFn 则调用 catchFn，否则将错误交给外层的处理流或总线处理
+            if (!this.catchFn) {
+                failedSteps.set(ctx, info)
+                throw err
+            }
+            failedSteps.delete(ctx)
+            await this.catchFn(ctx, err, info)
+            return false
+        }
+    }
+
+    /**
+     * 结束上下文，运行它经过的处理流的 finally (由内向外)，被它吸收的上下文也一并结束
+     *
+     * End the context, running finally of the flows it passed through (innermost first), the contexts absorbed by it end as well
+     */
+    protected async finalize(ctx: FlowContext<Payload, Extra>) {
+        const absorbed = absorbedContexts.get(ctx)
+        absorbedContexts.delete(ctx)
+        if (absorbed) await Promise.all(absorbed.map((other) => this.release(other as FlowContext<Payload, Extra>)))
+
+        const fns = finalizers.get(ctx)
+        finalizers.delete(ctx)
+        if (!fns || detachedContexts.has(ctx)) return
+        // 一个 finally 失败时仍然运行其余的 finally，然后抛出第一个错误
+        let failure: { error: unknown } | undefined
+        for (const fn of Array.from(fns).reverse()) {
             try {
-                // 中间件链按顺序执行以保证类型信息的安全
-                for (const pipeFn of this.pipeFn) {
-                    // 由于上下文的类型信息是静态的，但是实际上的数据类型是动态累积的
-                    const result = await pipeFn(ctx)
-                    if (result === false) break
-                    // 如果 result 是一个对象，则将其合并到上下文中
-                    if (result && typeof result === "object" && !Array.isArray(result)) {
-                        Object.assign(ctx, result)
-                    }
+                await fn(ctx)
+            } catch (error) {
+                failure ??= { error }
+            }
+        }
+        if (failure) throw failure.error
+    }
+
+    /**
+     * 结束被丢弃、被吸收或在 dispose 时仍被暂存的上下文，此时投递已经结束，finally 的错误交给实例级别的错误回调
+     *
+     * End a context that was dropped, absorbed or still held on dispose, the delivery has already ended at this point, so errors of finally go to the instance-wide error callback
+     */
+    protected async release(ctx: FlowContext<Payload, Extra>) {
+        heldContexts.delete(ctx)
+        await this.finalize(ctx).catch((error) => this.report(ctx, error))
+    }
+
+    /**
+     * 在计时器中恢复运行被暂存的上下文，此时投递已经结束，未被 catch 处理的错误交给实例级别的错误回调
+     *
+     * Resume a held context from a timer, the delivery has already ended at this point, so errors not handled by catch go to the instance-wide error callback
+     *
+     * 上下文在分支中被暂存时从顶层的处理流恢复，使分支之后的步骤与外层的 catch、finally 仍然生效
+     *
+     * A context held inside a branch resumes from the top-level flow, so the steps after the branch and the outer catch and finally still apply
+     */
+    protected resume(ctx: FlowContext<Payload, Extra>, startIndex: number) {
+        const [root, ...branches]: FlowTrail = [...(trails.get(ctx) ?? []).slice(0, -1), { flow: this, index: startIndex }]
+        resuming.set(ctx, branches)
+        root!.flow.execute(ctx, root!.index).catch((error) => this.report(ctx, error))
+    }
+
+    /**
+     * 将投递结束后发生的错误交给实例级别的错误回调
+     *
+     * Hand an error occurring after the delivery ended to the instance-wide error callback
+     */
+    protected report(ctx: FlowContext<Payload, Extra>, error: unknown) {
+        this.perikan.options.onError?.(ctx.data, error, { status: "rejected", duration: 0, attempts: 1, error })
+    }
+
+    /**
+     * 运行单个步骤，按照步骤的选项处理超时与重试
+     *
+     * Run a single step, handling timeout and retry according to the options of the step
+     */
+    protected async runStep(step: PerikanFlowStep<Payload, Extra>, ctx: FlowContext<Payload, Extra>, info: PerikanFlowStepInfo) {
+        // 只有在处理流被追踪时才为步骤创建 Span
+        const parent = activeSpans.get(ctx)
+        const span = parent
+            ? this.perikan.tracer?.startSpan(`step ${step.name ?? `#${info.index}`}`, {
+                  parent: parent.spanContext(),
+                  attributes: { "perikan.flow.step.index": info.index, ...(step.name && { "perikan.flow.step.name": step.name }) }
+              })
+            : undefined
+
+        const attempt = async () => {
+            while (true) {
+                info.attempts++
+                span?.setAttribute("perikan.flow.step.attempts", info.attempts)
+                try {
+                    return await this.attemptStep(step, ctx)
+                } catch (err) {
+                    if (!step.retry || !shouldRetry(step.retry, err, info.attempts)) throw err
+                    // 重试的步骤中记录的失败步骤不再有效
+                    failedSteps.delete(ctx)
+                    await new Promise((resolve) => setTimeout(resolve, computeRetryDelay(step.retry!, info.attempts)))
                 }
-            } catch (err) {
-                // 如果提供了 catchFn 则调用 catchFn
-                if (this.catchFn) await this.catchFn(ctx, err)
             }
         }
+        if (!span) return attempt()
+
+        activeSpans.set(ctx, span)
+        try {
+            return await withSpan(span, attempt)
+        } finally {
+            activeSpans.set(ctx, parent!)
+        }
     }
 
-    commit() {
+    /**
+     * 尝试运行一次步骤，超时时中止传递给步骤的 signal
+     *
+     * Attempt to run the step once, aborting the signal passed to the step on timeout
+     */
+    protected async attemptStep(step: PerikanFlowStep<Payload, Extra>, ctx: FlowContext<Payload, Extra>) {
+        const controller = new AbortController()
+        if (step.timeout === undefined) return step.fn(ctx, controller.signal)
+
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const error = new Error(`Flow step ${step.name ?? "<anonymous>"} timed out after ${step.timeout}ms`)
+                // 先拒绝再中止，避免步骤在中止时完成而掩盖超时
+                reject(error)
+                controller.abort(error)
+            }, step.timeout)
+        })
+
+        try {
+            return await Promise.race([step.fn(ctx, controller.signal), timeout])
+        } finally {
+            clearTimeout(timer)
+        }
+    }
+
+    /**
+     * 添加一个步骤
+     *
+     * Add a step
+     */
+    protected addStep(fn: PipeFn<Payload, Extra, any>, options?: PerikanFlowStepOptions) {
+        this.steps.push({ ...options, name: options?.name ?? (fn.name || undefined), fn })
+    }
+
+    commit(options?: PerikanSubscriptionOptions) {
         const handler = this.build()
-        const unbinds = this.events.map((event) => this.perikan.on(event, handler))
-        return () => unbinds.forEach((unbind) => unbind())
+        const unbinds = this.events.map((event) => this.perikan.on(event, handler, options))
+        return () => {
+            unbinds.forEach((unbind) => unbind())
+            this.dispose()
+        }
+    }
+
+    /**
+     * 停止处理流 (包括分支) 中时间相关步骤的所有计时器，并为暂存的上下文运行 finally，commit 返回的函数会自动调用
+     *
+     * Stop every timer of the time-based steps in the flow (branches included) and run finally for the held contexts, called automatically by the function returned from commit
+     */
+    dispose() {
+        this.disposers.forEach((dispose) => dispose())
+        this.children.forEach((child) => child.dispose())
     }
 
-    catch(fn: (ctx: FlowContext<Payload, Extra>, err?: any) => void | Promise<void>) {
+    /**
+     * 设置处理流的错误处理函数，info 指出了失败的步骤
+     *
+     * Set the error handler of the flow, info tells which step failed
+     *
+     * @param fn 错误处理函数 error handler
+     */
+    catch(fn: (ctx: FlowContext<Payload, Extra>, err: any, info: PerikanFlowStepInfo) => void | Promise<void>) {
         this.catchFn = fn
         return this
     }
 
-    pipe<Added extends object>(fn: PipeFn<Payload, Extra, Added>) {
+    /**
+     * 设置在处理流结束时总是运行的函数，无论处理流是完成、被中止还是失败
+     *
+     * Set the function always running when the flow ends, whether the flow completed, stopped or failed
+     *
+     * 每个上下文只运行一次，分支中的子处理流的 finally 在顶层的处理流结束时由内向外运行
+     *
+     * It runs once per context, finally of sub-flows in branches runs innermost first when the top-level flow ends
+     *
+     * @param fn 接收最终上下文的函数 function receiving the final context
+     */
+    finally(fn: (ctx: FlowContext<Payload, Extra>) => void | Promise<void>) {
+        this.finallyFn = fn
+        return this
+    }
+
+    pipe<Added extends object>(fn: PipeFn<Payload, Extra, Added>, options?: PerikanFlowStepOptions) {
         // 将处理流管道函数添加到管道中
-        this.pipeFn.push(fn)
-        // 扩展当前处理流的类型信息
-        return this as unknown as PerikanFlow<Payload, Extra & Added>
+        this.addStep(fn, options)
+        // 扩展当前处理流的类型信息，只会抛出错误的函数不扩展类型
+        return this as unknown as PerikanFlow<Payload, [Added] extends [never] ? Extra : Extra & Added>
     }
 
     filter(pred: (ctx: FlowContext<Payload, Extra>) => boolean) {
         // 将过滤器添加到管道中
-        this.pipeFn.push(async (ctx) => {
+        this.addStep(async (ctx) => {
             if (!pred(ctx)) return false
         })
         return this
     }
 
-    handle(fn: (ctx: FlowContext<Payload, Extra>) => void | Promise<void>) {
+    /**
+     * 通过 zod 模式验证负载中的部分结构，并将负载类型收窄为模式的输入类型，负载本身不会被替换，因此模式中的转换与默认值不会生效
+     *
+     * Validate a sub-shape of the payload through a zod schema and narrow the payload type to the input type of the schema, the payload itself is not replaced, so transforms and defaults of the schema do not apply
+     *
+     * @param schema 用于验证负载的模式 schema validating the payload
+     * @param options where 步骤的选项 options of the where step
+     */
+    where<Schema extends z.ZodType<object>>(
+        schema: Schema,
+        options?: PerikanFlowWhereOptions<Payload, Extra>
+    ): PerikanFlow<Payload & z.input<Schema>, Extra>
+    /**
+     * 通过类型守卫检查负载，并将负载类型收窄为守卫的类型
+     *
+     * Check the payload through a type guard and narrow the payload type to the guarded type
+     *
+     * @param guard 负载的类型守卫 type guard of the payload
+     * @param options where 步骤的选项 options of the where step
+     */
+    where<Narrowed extends Payload>(
+        guard: (payload: Payload) => payload is Narrowed,
+        options?: PerikanFlowWhereOptions<Payload, Extra>
+    ): PerikanFlow<Narrowed, Extra>
+    /**
+     * 通过 zod 模式验证之前的步骤添加的属性，并将该属性的类型收窄为模式的输入类型，属性本身不会被替换
+     *
+     * Validate a property added by previous steps through a zod schema and narrow the type of that property to the input type of the schema, the property itself is not replaced
+     *
+     * @param key 属性名 property name
+     * @param schema 用于验证属性的模式 schema validating the property
+     * @param options where 步骤的选项 options of the where step
+     */
+    where<Key extends keyof Extra, Schema extends z.ZodType>(
+        key: Key,
+        schema: Schema,
+        options?: PerikanFlowWhereOptions<Payload, Extra>
+    ): PerikanFlow<Payload, Omit<Extra, Key> & Record<Key, Extra[Key] & z.input<Schema>>>
+    /**
+     * 通过类型守卫检查之前的步骤添加的属性，并收窄该属性的类型
+     *
+     * Check a property added by previous steps through a type guard and narrow the type of that property
+     *
+     * @param key 属性名 property name
+     * @param guard 属性的类型守卫 type guard of the property
+     * @param options where 步骤的选项 options of the where step
+     */
+    where<Key extends keyof Extra, Narrowed extends Extra[Key]>(
+        key: Key,
+        guard: (value: Extra[Key]) => value is Narrowed,
+        options?: PerikanFlowWhereOptions<Payload, Extra>
+    ): PerikanFlow<Payload, Omit<Extra, Key> & Record<Key, Narrowed>>
+    where(
+        keyOrCondition: keyof Extra | WhereCondition,
+        conditionOrOptions?: WhereCondition | PerikanFlowWhereOptions<Payload, Extra>,
+        options?: PerikanFlowWhereOptions<Payload, Extra>
+    ): PerikanFlow<any, any> {
+        // 第一个参数不是模式或守卫时，表示检查上下文中的属性
+        const byKey = typeof keyOrCondition !== "object" && typeof keyOrCondition !== "function"
+        const key = byKey ? keyOrCondition : undefined
+        const condition = (byKey ? conditionOrOptions : keyOrCondition) as WhereCondition
+        const opts = (byKey ? options : conditionOrOptions) as PerikanFlowWhereOptions<Payload, Extra> | undefined
+        const check = typeof condition === "function" ? condition : (value: unknown) => condition.safeParse(value).success
+        const fallback: PerikanFlow<any, any> | undefined = opts?.otherwise?.(new PerikanFlow(this.perikan))
+        if (fallback) this.children.push(fallback)
+
+        this.addStep(async (ctx) => {
+            if (check(key === undefined ? ctx.payload : ctx[key as keyof typeof ctx])) return
+            // 不满足条件时运行备用的子处理流，然后结束当前处理流
+            if (fallback) await fallback.run(ctx)
+            return false
+        })
+        return this
+    }
+
+    handle(fn: (ctx: FlowContext<Payload, Extra>, signal: AbortSignal) => unknown, options?: PerikanFlowStepOptions) {
         // 将处理函数添加到管道中
-        this.pipeFn.push(async (ctx) => {
-            await fn(ctx)
+        this.addStep(
+            async (ctx, signal) => {
+                await fn(ctx, signal)
+            },
+            { ...options, name: options?.name ?? (fn.name || undefined) }
+        )
+        return this
+    }
+
+    /**
+     * 根据事件或断言将处理流分为多个分支，每个分支拥有收窄了类型的子处理流
+     *
+     * Branch the flow by event or predicate, each branch has a sub-flow with narrowed types
+     *
+     * @param build 分支匹配器构建函数 branch matcher builder
+     * @param options 分支选项 branch options
+     */
+    match(build: (match: PerikanFlowMatch<Payload, Extra>) => PerikanFlowMatch<Payload, Extra>, options?: PerikanFlowBranchOptions) {
+        const match = build(new PerikanFlowMatch(this.perikan))
+        this.children.push(...match.flows())
+        return this.branch((ctx) => match.select(ctx), options)
+    }
+
+    /**
+     * 根据负载中判别属性的值将处理流分为多个分支，每个分支的负载类型被收窄为对应的成员
+     *
+     * Branch the flow by the value of a discriminant property in the payload, the payload type of each branch is narrowed to the corresponding member
+     *
+     * @param key 判别属性 discriminant property
+     * @param cases 判别属性的值到分支构建函数的映射 mapping from values of the discriminant property to branch builders
+     * @param options 分支选项，可以通过 default 提供没有匹配的值时执行的分支 branch options, default provides the branch running when no value matches
+     */
+    switch<Key extends keyof Payload>(
+        key: Key,
+        cases: { [Value in Payload[Key] & (string | number)]?: BranchBuilder<NarrowPayload<Payload, Key, Value>, Extra> },
+        options?: PerikanFlowBranchOptions & { default?: BranchBuilder<Payload, Extra> }
+    ) {
+        const flows = new Map<string, PerikanFlow<any, any>>()
+        for (const [value, build] of Object.entries(cases)) {
+            flows.set(value, (build as BranchBuilder<any, Extra>)(new PerikanFlow(this.perikan)))
+        }
+        const fallback = options?.default?.(new PerikanFlow(this.perikan))
+        this.children.push(...flows.values(), ...(fallback ? [fallback] : []))
+
+        return this.branch((ctx) => flows.get(String(ctx.payload[key])) ?? fallback, options)
+    }
+
+    /**
+     * 添加一个分支步骤，在选择的子处理流上运行当前上下文
+     *
+     * Add a branching step, running the current context on the selected sub-flow
+     */
+    protected branch(select: (ctx: FlowContext<Payload, Extra>) => PerikanFlow<any, any> | undefined, options?: PerikanFlowBranchOptions) {
+        const rejoin = options?.rejoin ?? false
+        this.addStep(async (ctx) => {
+            // 恢复被暂存的上下文时回到暂存时所在的子处理流，而不是重新选择分支
+            const resumed = resuming.get(ctx)?.shift()
+            const flow = resumed?.flow ?? select(ctx)
+            // 没有匹配的分支时，只有在需要回到主处理流时才继续执行
+            if (!flow) return rejoin
+            const completed = await flow.run(ctx, resumed?.index)
+            // 子处理流中的上下文被暂存时，主处理流也随之暂存
+            if (heldContexts.has(ctx)) return DEFERRED
+            return completed && rejoin
+        })
+        return this
+    }
+
+    /**
+     * 防抖，同一分组在 ms 毫秒内没有新的上下文到达时，只有最后一个上下文继续执行后续步骤
+     *
+     * Debounce, only the last context continues with the following steps once no new context of the same group arrived for ms milliseconds
+     *
+     * @param ms 静默时间 (毫秒) quiet time in milliseconds
+     * @param key 分组函数，默认所有上下文属于同一分组 grouping function, all contexts belong to the same group by default
+     */
+    debounce(ms: number, key?: (ctx: FlowContext<Payload, Extra>) => unknown) {
+        assertDuration("debounce", ms)
+        const resumeAt = this.steps.length + 1
+        const pending = new Map<unknown, { ctx: FlowContext<Payload, Extra>; timer: Timer }>()
+        this.disposers.push(() => {
+            pending.forEach(({ ctx, timer }) => {
+                clearTimeout(timer)
+                void this.release(ctx)
+            })
+            pending.clear()
+        })
+
+        this.addStep(
+            async (ctx) => {
+                const group = key?.(ctx)
+                // 被后到达的上下文取代的上下文不会再继续执行，在此结束
+                const previous = pending.get(group)
+                if (previous) {
+                    clearTimeout(previous.timer)
+                    void this.release(previous.ctx)
+                }
+                const timer = setTimeout(() => {
+                    pending.delete(group)
+                    this.resume(ctx, resumeAt)
+                }, ms)
+                pending.set(group, { ctx, timer })
+                return DEFERRED
+            },
+            { name: "debounce" }
+        )
+        return this
+    }
+
+    /**
+     * 节流，同一分组的上下文在 ms 毫秒内只有第一个会继续执行后续步骤，其余的被丢弃
+     *
+     * Throttle, only the first context of the same group within ms milliseconds continues with the following steps, the others are dropped
+     *
+     * @param ms 节流时间 (毫秒) throttle time in milliseconds
+     * @param key 分组函数，默认所有上下文属于同一分组 grouping function, all contexts belong to the same group by default
+     */
+    throttle(ms: number, key?: (ctx: FlowContext<Payload, Extra>) => unknown) {
+        assertDuration("throttle", ms)
+        const timers = new Map<unknown, Timer>()
+        this.disposers.push(() => clearTimers(timers))
+
+        this.addStep(
+            async (ctx) => {
+                const group = key?.(ctx)
+                if (timers.has(group)) return false
+                timers.set(
+                    group,
+                    setTimeout(() => timers.delete(group), ms)
+                )
+            },
+            { name: "throttle" }
+        )
+        return this
+    }
+
+    /**
+     * 将上下文成批交给后续步骤，批次由最后到达的上下文携带，通过 ctx.batch 访问
+     *
+     * Hand contexts to the following steps in batches, the batch is carried by the context arriving last and accessed through ctx.batch
+     *
+     * @param options batch 步骤的选项 options of the batch step
+     */
+    batch(options: PerikanFlowBatchOptions<Payload, Extra>) {
+        const { size, maxWait, key } = options
+        if (size === undefined && maxWait === undefined) throw new RangeError("Flow batch requires size or maxWait")
+        if (size !== undefined && !(Number.isInteger(size) && size > 0))
+            throw new RangeError(`Flow batch size must be a positive integer, got ${size}`)
+        if (maxWait !== undefined) assertDuration("batch", maxWait)
+
+        const resumeAt = this.steps.length + 1
+        const buffers = new Map<unknown, { contexts: FlowContext<Payload, Extra>[]; timer?: Timer }>()
+        this.disposers.push(() => {
+            buffers.forEach((buffer) => {
+                clearTimeout(buffer.timer)
+                buffer.contexts.forEach((ctx) => void this.release(ctx))
+            })
+            buffers.clear()
+        })
+        // 取出分组的批次，除携带者外的上下文被批次吸收，在携带者结束时结束
+        const take = (group: unknown) => {
+            const buffer = buffers.get(group)!
+            buffers.delete(group)
+            clearTimeout(buffer.timer)
+            absorbedContexts.set(buffer.contexts.at(-1)!, buffer.contexts.slice(0, -1))
+            return buffer.contexts
+        }
+
+        this.addStep(
+            async (ctx) => {
+                const group = key?.(ctx)
+                let buffer = buffers.get(group)
+                if (!buffer) {
+                    buffer = { contexts: [] }
+                    buffers.set(group, buffer)
+                    if (maxWait !== undefined) {
+                        buffer.timer = setTimeout(() => {
+                            const contexts = take(group)
+                            this.resume(Object.assign(contexts.at(-1)!, { batch: contexts }), resumeAt)
+                        }, maxWait)
+                    }
+                }
+                buffer.contexts.push(ctx)
+                // 批次已满时由当前上下文直接携带批次继续执行
+                if (size !== undefined && buffer.contexts.length >= size) return { batch: take(group) }
+                return DEFERRED
+            },
+            { name: "batch" }
+        )
+        return this as unknown as PerikanFlow<Payload, Extra & { batch: FlowContext<Payload, Extra>[] }>
+    }
+
+    /**
+     * 将上下文按照时间窗口交给后续步骤，窗口从分组的第一个上下文到达时开始，每个非空的窗口由最后到达的上下文的副本携带，通过 ctx.window 访问
+     *
+     * Hand contexts to the following steps in time windows, windows start when the first context of a group arrives, every non-empty window is carried by a copy of the context arriving last and accessed through ctx.window
+     *
+     * @param options window 步骤的选项 options of the window step
+     */
+    window(options: PerikanFlowWindowOptions<Payload, Extra>) {
+        const { size, slide = size, key } = options
+        assertDuration("window", size)
+        if (!(slide > 0 && slide <= size)) throw new RangeError(`Flow window slide must be in (0, ${size}], got ${slide}`)
+
+        const resumeAt = this.steps.length + 1
+        // 第 k 个窗口在 start + k * slide 时结束，窗口的边界由开始时间计算，不受计时器延迟的影响
+        type WindowState = { start: number; ticks: number; entries: { time: number; ctx: FlowContext<Payload, Extra> }[]; timer?: Timer }
+        const windows = new Map<unknown, WindowState>()
+        this.disposers.push(() => {
+            windows.forEach((window) => {
+                clearTimeout(window.timer)
+                window.entries.forEach((entry) => void this.release(entry.ctx))
+            })
+            windows.clear()
+        })
+        const schedule = (group: unknown, state: WindowState) => {
+            state.timer = setTimeout(() => close(group, state), Math.max(0, state.start + (state.ticks + 1) * slide - Date.now()))
+        }
+        const close = (group: unknown, state: WindowState) => {
+            const end = state.start + ++state.ticks * slide
+            const contexts = state.entries.filter((entry) => entry.time >= end - size && entry.time < end).map((entry) => entry.ctx)
+            // 不会出现在下一个窗口中的上下文被当前窗口吸收，在携带窗口的副本结束时结束
+            const expired = state.entries.filter((entry) => entry.time < end + slide - size).map((entry) => entry.ctx)
+            state.entries = state.entries.filter((entry) => entry.time >= end + slide - size)
+            if (contexts.length > 0) {
+                const copy = copyFlowContext(contexts.at(-1)!, { window: contexts })
+                detachedContexts.add(copy)
+                absorbedContexts.set(copy, expired)
+                this.resume(copy, resumeAt)
+            } else {
+                expired.forEach((ctx) => void this.release(ctx))
+            }
+            // 没有剩余的上下文时关闭窗口
+            if (state.entries.length > 0) schedule(group, state)
+            else windows.delete(group)
+        }
+
+        this.addStep(
+            async (ctx) => {
+                const group = key?.(ctx)
+                let window = windows.get(group)
+                if (!window) {
+                    window = { start: Date.now(), ticks: 0, entries: [] }
+                    windows.set(group, window)
+                    schedule(group, window)
+                }
+                window.entries.push({ time: Date.now(), ctx })
+                return DEFERRED
+            },
+            { name: "window" }
+        )
+        return this as unknown as PerikanFlow<Payload, Extra & { window: FlowContext<Payload, Extra>[] }>
+    }
+
+    /**
+     * 发布一个由当前事件触发的后续事件，负载由上下文计算得出
+     *
+     * Emit a follow-up event triggered by the current event, with the payload computed from the context
+     *
+     * @param event 要发布的事件 event to emit
+     * @param fn 根据上下文计算负载的函数 function computing the payload from the context
+     * @param options 步骤与事件的选项 options of the step and the event
+     */
+    emit<Emitted extends object>(
+        event: PerikanEvent<Emitted>,
+        fn: (ctx: FlowContext<Payload, Extra>) => Emitted | Promise<Emitted>,
+        options?: PerikanFlowStepOptions & PerikanFlowEmitOptions<Emitted>
+    ) {
+        const { name, timeout, retry, ...opts } = options ?? {}
+        this.addStep(
+            async (ctx) => {
+                await ctx.emit(event, await fn(ctx), opts)
+            },
+            { name, timeout, retry }
+        )
+        return this
+    }
+
+    respond<Response>(request: PerikanRequest<Payload, Response>, fn: (ctx: FlowContext<Payload, Extra>) => Response | Promise<Response>) {
+        // 将响应函数添加到管道中，返回值将作为回复发送给请求方
+        this.addStep(async (ctx) => {
+            await request.respond(this.perikan, ctx.data, () => fn(ctx))
         })
         return this
     }
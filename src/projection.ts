@@ -0,0 +1,315 @@
+import type { Perikan } from "."
+import type { PerikanSubscriptionOptions } from "./bus"
+import type { InferEventData, PerikanEvent, PerikanEventData } from "./event"
+
+// 不分键的投影的所有状态都保存在该键下
+const DEFAULT_KEY = ""
+
+const DEFAULT_DEDUP_WINDOW = 1024
+
+/**
+ * 投影的定义选项
+ *
+ * Definition options of a projection
+ *
+ * @template Events 以名称为键的事件 events keyed by name
+ * @template State 每个键的状态的类型 type of the state of each key
+ */
+export type PerikanProjectionDefinition<Events extends Record<string, PerikanEvent<any>>, State> = {
+    /**
+     * 投影订阅的事件
+     *
+     * Events subscribed by the projection
+     */
+    events: Events
+    /**
+     * 创建某个键的初始状态
+     *
+     * Create the initial state of a key
+     */
+    initial: (key: string) => State
+    /**
+     * 每个事件的归约函数，返回新的状态，返回 undefined 时删除该键的状态
+     *
+     * Reducer of each event, returning the new state, or undefined to delete the state of the key
+     */
+    reducers: { [Name in keyof Events]: (state: State, data: InferEventData<Events[Name]>) => State | undefined }
+    /**
+     * 从事件数据中提取实体键，未提供时投影只有一个状态
+     *
+     * Extract the entity key from the event data, the projection holds a single state when not provided
+     */
+    key?: (data: InferEventData<Events[keyof Events]>) => string | number | bigint
+    /**
+     * 用于去重的最近应用的事件 id 的数量，默认为 1024
+     *
+     * Number of recently applied event ids kept for deduplication, 1024 by default
+     */
+    dedupWindow?: number
+    /**
+     * 变更订阅者抛出异常时调用的错误回调
+     *
+     * Error callback invoked when a change subscriber throws
+     */
+    onError?: (error: unknown, change: PerikanProjectionChange<State>) => void
+}
+
+/**
+ * 投影状态的变更
+ *
+ * Change of the projection state
+ *
+ * @template State 状态的类型 type of the state
+ */
+export type PerikanProjectionChange<State> = {
+    key: string
+    /**
+     * 变更后的状态，状态被删除时为 undefined
+     *
+     * State after the change, undefined when the state was deleted
+     */
+    state: State | undefined
+    previous: State | undefined
+    data: PerikanEventData<any>
+}
+
+/**
+ * 投影的快照
+ *
+ * Snapshot of a projection
+ *
+ * @template State 状态的类型 type of the state
+ */
+export type PerikanProjectionSnapshot<State> = {
+    /**
+     * 最后应用的事件 id
+     *
+     * Id of the last applied event
+     */
+    lastId?: bigint
+    /**
+     * 最近应用的事件 id，恢复后继续用于实时事件的去重
+     *
+     * Recently applied event ids, still used to deduplicate live events after restoring
+     */
+    recentIds?: bigint[]
+    entries: [string, State][]
+}
+
+/**
+ * 投影，将事件归约为可查询的读模型
+ *
+ * Projection, folding events into a queryable read model
+ *
+ * 实时事件通过最近应用的事件 id 去重，可以乱序到达；追赶历史事件时跳过 id 不大于 lastId 的事件
+ *
+ * Live events are deduplicated by the recently applied event ids and may arrive out of order; catching up skips historical events whose id is not greater than lastId
+ *
+ * @template Events 以名称为键的事件 events keyed by name
+ * @template State 每个键的状态的类型 type of the state of each key
+ */
+export class PerikanProjection<Events extends Record<string, PerikanEvent<any>>, State> {
+    protected readonly states: Map<string, State> = new Map()
+    protected readonly listeners: Set<(change: PerikanProjectionChange<State>) => void> = new Set()
+    // 以主题为键的事件与对应的归约函数
+    protected readonly topics: Map<string, { event: PerikanEvent<any>; reducer: (state: State, data: any) => State | undefined }> = new Map()
+    protected _lastId?: bigint
+    // 最近应用的事件 id，按照应用的顺序排列，用于在实时投递中去重
+    protected readonly recentIds: Set<bigint> = new Set()
+
+    constructor(public readonly definition: PerikanProjectionDefinition<Events, State>) {
+        for (const [name, event] of Object.entries(definition.events)) {
+            this.topics.set(event.topic, { event, reducer: definition.reducers[name]! })
+        }
+    }
+
+    /**
+     * 最后应用的事件 id
+     *
+     * Id of the last applied event
+     *
+     * 即已应用的事件中最大的 id
+     *
+     * That is, the greatest id among the applied events
+     */
+    get lastId(): bigint | undefined {
+        return this._lastId
+    }
+
+    /**
+     * 获取指定键的状态，不分键的投影无需提供键
+     *
+     * Get the state of the given key, no key is needed for projections without keys
+     *
+     * @param key 实体键 entity key
+     * @returns 状态，不存在时返回 undefined the state, or undefined if not exists
+     */
+    get(key: string | number | bigint = DEFAULT_KEY): State | undefined {
+        return this.states.get(String(key))
+    }
+
+    /**
+     * 获取所有键与状态
+     *
+     * Get every key and state
+     */
+    entries(): IterableIterator<[string, State]> {
+        return this.states.entries()
+    }
+
+    /**
+     * 查询满足条件的状态
+     *
+     * Query the states satisfying the predicate
+     *
+     * @param predicate 条件 predicate
+     * @returns 满足条件的状态 states satisfying the predicate
+     */
+    query(predicate: (state: State, key: string) => boolean): State[] {
+        const result: State[] = []
+        for (const [key, state] of this.states) if (predicate(state, key)) result.push(state)
+        return result
+    }
+
+    /**
+     * 订阅状态的变更
+     *
+     * Subscribe to changes of the state
+     *
+     * @param listener 变更回调 change listener
+     * @returns 取消订阅的函数 function to unsubscribe
+     */
+    subscribe(listener: (change: PerikanProjectionChange<State>) => void): () => void {
+        this.listeners.add(listener)
+        return () => {
+            this.listeners.delete(listener)
+        }
+    }
+
+    /**
+     * 应用一个实时事件，旧版本的事件数据会被升级到当前版本，最近应用过的事件会被跳过
+     *
+     * Apply a live event, event data of older versions is upcast to the current version, recently applied events are skipped
+     *
+     * @param data 事件数据 event data
+     * @returns 事件是否被应用，不属于投影或最近应用过的事件返回 false whether the event was applied, false for events not in the projection or applied recently
+     */
+    apply(data: PerikanEventData<any>): boolean {
+        const entry = this.topics.get(data.topic)
+        if (!entry) return false
+        return this._apply(entry.event.parse(data), entry.reducer)
+    }
+
+    /**
+     * 应用历史事件中尚未应用的部分，id 不大于 lastId 的事件会被跳过，因此历史事件需要按照 id 的顺序提供
+     *
+     * Apply the part of the historical events not applied yet, events whose id is not greater than lastId are skipped, so the history must be provided in id order
+     *
+     * @param history 历史事件，可以是事件存储的查询结果 historical events, e.g. the result of an event store query
+     * @returns 应用的事件数量 number of applied events
+     */
+    async catchUp(history: Iterable<PerikanEventData<any>> | AsyncIterable<PerikanEventData<any>>): Promise<number> {
+        let count = 0
+        for await (const data of history) {
+            if (this._lastId !== undefined && data.id <= this._lastId) continue
+            if (this.apply(data)) count++
+        }
+        return count
+    }
+
+    /**
+     * 清空状态后从历史事件重建投影，清空不会通知订阅者
+     *
+     * Rebuild the projection from historical events after clearing the state, clearing does not notify the subscribers
+     *
+     * @param history 历史事件 historical events
+     * @returns 应用的事件数量 number of applied events
+     */
+    rebuild(history: Iterable<PerikanEventData<any>> | AsyncIterable<PerikanEventData<any>>): Promise<number> {
+        this.states.clear()
+        this.recentIds.clear()
+        this._lastId = undefined
+        return this.catchUp(history)
+    }
+
+    /**
+     * 创建当前状态的快照
+     *
+     * Create a snapshot of the current state
+     */
+    snapshot(): PerikanProjectionSnapshot<State> {
+        return structuredClone({ lastId: this._lastId, recentIds: Array.from(this.recentIds), entries: Array.from(this.states) })
+    }
+
+    /**
+     * 从快照恢复状态与最近应用的事件 id，已经包含在快照中的实时事件不会被重复应用，恢复不会通知订阅者
+     *
+     * Restore the state and the recently applied event ids from a snapshot, live events already included in the snapshot are not applied again, restoring does not notify the subscribers
+     *
+     * @param snapshot 快照 snapshot
+     */
+    restore(snapshot: PerikanProjectionSnapshot<State>) {
+        const { lastId, recentIds = [], entries } = structuredClone(snapshot)
+        this.states.clear()
+        this.recentIds.clear()
+        for (const [key, state] of entries) this.states.set(key, state)
+        for (const id of recentIds) this.recentIds.add(id)
+        this._lastId = lastId
+        return this
+    }
+
+    /**
+     * 在 Perikan 实例上订阅投影的事件
+     *
+     * Subscribe to the events of the projection on the Perikan instance
+     *
+     * @param perikan Perikan 实例 Perikan instance
+     * @param options 订阅选项 subscription options
+     * @returns 取消订阅的函数 function to unsubscribe
+     */
+    commit(perikan: Perikan, options?: PerikanSubscriptionOptions): () => void {
+        // 总线投递的事件数据已经过验证与升级，多个生产者的事件不保证按照 id 的顺序到达，因此只按照最近应用的 id 去重
+        const unbinds = Array.from(this.topics.values(), ({ event, reducer }) =>
+            perikan.on(event, (data) => void this._apply(data, reducer), options)
+        )
+        return () => unbinds.forEach((unbind) => unbind())
+    }
+
+    private _apply(data: PerikanEventData<any>, reducer: (state: State, data: any) => State | undefined): boolean {
+        if (this.recentIds.has(data.id)) return false
+
+        const key = this.definition.key ? String(this.definition.key(data as InferEventData<Events[keyof Events]>)) : DEFAULT_KEY
+        const previous = this.states.get(key)
+        const state = reducer(previous ?? this.definition.initial(key), data)
+        if (state === undefined) this.states.delete(key)
+        else this.states.set(key, state)
+        if (this._lastId === undefined || data.id > this._lastId) this._lastId = data.id
+        this.recentIds.add(data.id)
+        if (this.recentIds.size > (this.definition.dedupWindow ?? DEFAULT_DEDUP_WINDOW)) {
+            this.recentIds.delete(this.recentIds.values().next().value!)
+        }
+
+        const change: PerikanProjectionChange<State> = { key, state, previous, data }
+        // 订阅者的异常不应影响投影
+        for (const listener of this.listeners) {
+            try {
+                listener(change)
+            } catch (error) {
+                this.definition.onError?.(error, change)
+            }
+        }
+        return true
+    }
+}
+
+/**
+ * 定义一个投影
+ *
+ * Define a projection
+ *
+ * @param definition 投影的定义选项 definition options of the projection
+ * @returns 投影实例 projection instance
+ */
+export function defineProjection<Events extends Record<string, PerikanEvent<any>>, State>(definition: PerikanProjectionDefinition<Events, State>) {
+    return new PerikanProjection(definition)
+}
@@ -0,0 +1,79 @@
+import type { PerikanEvent } from "./event"
+
+/**
+ * Perikan 事件注册表，用于根据主题查找事件定义
+ *
+ * Perikan event registry, used to look up event definitions by topic
+ */
+export class PerikanEventRegistry {
+    private readonly events: Map<string, PerikanEvent<any>> = new Map()
+
+    /**
+     * 创建一个 PerikanEventRegistry 实例
+     *
+     * Create a PerikanEventRegistry instance
+     *
+     * @param events 初始注册的事件 events to register initially
+     */
+    constructor(events: Iterable<PerikanEvent<any>> = []) {
+        for (const event of events) this.register(event)
+    }
+
+    /**
+     * 注册事件，相同主题的事件会被覆盖
+     *
+     * Register an event, events with the same topic are overwritten
+     *
+     * @param event 事件 event
+     */
+    register(event: PerikanEvent<any>) {
+        this.events.set(event.topic, event)
+        return this
+    }
+
+    /**
+     * 根据主题获取事件
+     *
+     * Get the event by topic
+     *
+     * @param topic 主题 topic
+     * @returns 事件，如果不存在则返回 undefined the event, or undefined if not exists
+     */
+    get(topic: string): PerikanEvent<any> | undefined {
+        return this.events.get(topic)
+    }
+
+    /**
+     * 检查主题是否已注册
+     *
+     * Check if the topic is registered
+     */
+    has(topic: string): boolean {
+        return this.events.has(topic)
+    }
+
+    /**
+     * 移除指定主题的事件
+     *
+     * Remove the event of the given topic
+     *
+     * @param topic 主题 topic
+     * @returns 事件是否存在并被移除 whether the event existed and was removed
+     */
+    delete(topic: string): boolean {
+        return this.events.delete(topic)
+    }
+
+    /**
+     * 已注册的事件数量
+     *
+     * Number of registered events
+     */
+    get size(): number {
+        return this.events.size
+    }
+
+    [Symbol.iterator](): IterableIterator<PerikanEvent<any>> {
+        return this.events.values()
+    }
+}
@@ -0,0 +1,303 @@
+import { createConnection, createServer, type AddressInfo, type Server, type Socket } from "node:net"
+import { parseJSON, stringifyJSON } from "./codec"
+import { PerikanPeerBus, PerikanRouter, type PerikanPeerBusOptions, type PerikanRouterMessage } from "./router"
+
+/**
+ * 代理与远程总线之间传输的帧，每一帧都是一行支持 bigint 的 JSON
+ *
+ * Frames transferred between the broker and remote buses, each frame is a line of bigint-safe JSON
+ */
+export type PerikanBrokerFrame = PerikanRouterMessage | { type: "hello"; workerId: number } | { type: "ping" } | { type: "pong" }
+
+/**
+ * 向套接字写入一帧
+ *
+ * Write a frame to the socket
+ */
+const writeFrame = (socket: Socket, frame: PerikanBrokerFrame) => socket.write(stringifyJSON(frame) + "\n")
+
+const DEFAULT_MAX_FRAME_LENGTH = 16 * 1024 * 1024
+
+/**
+ * 按行读取套接字中的帧，超过最大长度的帧视为协议错误并断开连接
+ *
+ * Read frames from the socket line by line, frames exceeding the maximum length are treated as protocol errors and drop the connection
+ */
+const readFrames = (socket: Socket, maxLength: number, onFrame: (frame: PerikanBrokerFrame) => void) => {
+    let pending = ""
+    socket.setEncoding("utf8")
+    socket.on("data", (chunk: string) => {
+        pending += chunk
+        let index: number
+        while ((index = pending.indexOf("\n")) >= 0) {
+            if (index > maxLength) return void socket.destroy()
+            const line = pending.slice(0, index)
+            pending = pending.slice(index + 1)
+            if (!line) continue
+            // 无法解析的帧视为协议错误并断开连接
+            try {
+                onFrame(parseJSON(line) as PerikanBrokerFrame)
+            } catch {
+                socket.destroy()
+                return
+            }
+        }
+        // 没有换行符的数据不能无限地缓存
+        if (pending.length > maxLength) socket.destroy()
+    })
+}
+
+export type PerikanBrokerOptions = {
+    host?: string
+    /**
+     * 监听的端口，为 0 时由系统分配
+     *
+     * Port to listen on, assigned by the system when 0
+     */
+    port?: number
+    /**
+     * 连接在没有任何数据的情况下被断开前的时长 (毫秒)，默认为 15000
+     *
+     * Duration without any data before a connection is dropped (milliseconds), 15000 by default
+     */
+    heartbeatTimeout?: number
+    /**
+     * 单个帧的最大长度 (字符)，默认为 16 MiB
+     *
+     * Maximum length of a single frame (characters), 16 MiB by default
+     */
+    maxFrameLength?: number
+}
+
+/**
+ * 基于 TCP 的事件代理，在多个 PerikanRemoteBus 之间同步订阅并路由事件
+ *
+ * TCP-based event broker, syncing subscriptions and routing events between multiple PerikanRemoteBus instances
+ */
+export class PerikanBroker {
+    protected readonly router = new PerikanRouter()
+    protected readonly server: Server
+    // 每个 worker id 当前的连接
+    protected readonly peers: Map<number, Socket> = new Map()
+    protected readonly sockets: Set<Socket> = new Set()
+
+    constructor(protected readonly options: PerikanBrokerOptions = {}) {
+        this.server = createServer((socket) => this._accept(socket))
+    }
+
+    /**
+     * 开始监听
+     *
+     * Start listening
+     *
+     * @returns 实际监听的端口 the port actually listened on
+     */
+    listen(): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.server.once("error", reject)
+            this.server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", () => {
+                this.server.off("error", reject)
+                resolve((this.server.address() as AddressInfo).port)
+            })
+        })
+    }
+
+    /**
+     * 断开所有连接并停止监听
+     *
+     * Drop all connections and stop listening
+     */
+    close(): Promise<void> {
+        for (const socket of this.sockets) socket.destroy()
+        return new Promise((resolve) => this.server.close(() => resolve()))
+    }
+
+    private _accept(socket: Socket) {
+        let workerId: number | undefined
+        this.sockets.add(socket)
+        socket.setTimeout(this.options.heartbeatTimeout ?? 15000, () => socket.destroy())
+
+        readFrames(socket, this.options.maxFrameLength ?? DEFAULT_MAX_FRAME_LENGTH, (frame) => {
+            switch (frame.type) {
+                case "hello":
+                    // 相同 worker id 的新连接会替换旧连接
+                    workerId = frame.workerId
+                    this.peers.get(workerId)?.destroy()
+                    this.peers.set(workerId, socket)
+                    this.router.connect(workerId, (message) => writeFrame(socket, message))
+                    break
+                case "ping":
+                    writeFrame(socket, { type: "pong" })
+                    break
+                case "pong":
+                    break
+                default:
+                    // 未完成握手的连接不能发送其他消息
+                    if (workerId === undefined) return void socket.destroy()
+                    this.router.receive(workerId, frame)
+            }
+        })
+
+        socket.on("error", () => {})
+        socket.on("close", () => {
+            this.sockets.delete(socket)
+            if (workerId !== undefined && this.peers.get(workerId) === socket) {
+                this.peers.delete(workerId)
+                this.router.disconnect(workerId)
+            }
+        })
+    }
+}
+
+export type PerikanRemoteBusOptions = PerikanPeerBusOptions & {
+    host?: string
+    port: number
+    /**
+     * 断开后重新连接的间隔 (毫秒)，默认为 1000
+     *
+     * Interval before reconnecting after disconnection (milliseconds), 1000 by default
+     */
+    reconnectDelay?: number
+    /**
+     * 心跳的间隔 (毫秒)，超过两个间隔没有收到任何数据时将重新连接，默认为 5000
+     *
+     * Heartbeat interval (milliseconds), reconnects when nothing is received for two intervals, 5000 by default
+     */
+    heartbeatInterval?: number
+    /**
+     * 断开期间最多缓存的待发送事件数量，超出时丢弃最早的事件，默认为 1000
+     *
+     * Maximum number of outgoing events buffered while disconnected, the oldest events are dropped when exceeded, 1000 by default
+     */
+    maxBufferSize?: number
+    /**
+     * 单个帧的最大长度 (字符)，默认为 16 MiB
+     *
+     * Maximum length of a single frame (characters), 16 MiB by default
+     */
+    maxFrameLength?: number
+}
+
+/**
+ * 连接到 PerikanBroker 的远程事件总线，断开期间发送的事件会被缓存并在重新连接后发送
+ *
+ * Remote event bus connected to a PerikanBroker, events sent while disconnected are buffered and sent after reconnecting
+ */
+export class PerikanRemoteBus extends PerikanPeerBus {
+    protected socket?: Socket
+    protected connected = false
+    protected closed = true
+    protected readonly buffer: PerikanRouterMessage[] = []
+
+    private _heartbeat?: ReturnType<typeof setInterval>
+    private _reconnect?: ReturnType<typeof setTimeout>
+    private _lastSeen = 0
+    // 尚未完成的 connect 的拒绝函数，在连接成功前调用 close 时拒绝
+    private _rejectConnect?: (error: Error) => void
+
+    constructor(protected override readonly options: PerikanRemoteBusOptions) {
+        super(options)
+    }
+
+    /**
+     * 是否已连接到代理
+     *
+     * Whether connected to the broker
+     */
+    get isConnected(): boolean {
+        return this.connected
+    }
+
+    /**
+     * 连接到代理，连接失败时会持续重试直到成功或调用 close
+     *
+     * Connect to the broker, retrying on failure until connected or close is called
+     *
+     * 在连接成功前调用 close 时，返回的 Promise 会被拒绝
+     *
+     * The returned promise is rejected when close is called before connecting
+     */
+    connect(): Promise<void> {
+        this.closed = false
+        return new Promise((resolve, reject) => {
+            this._rejectConnect = reject
+            this._open(() => {
+                this._rejectConnect = undefined
+                resolve()
+            })
+        })
+    }
+
+    /**
+     * 断开与代理的连接并停止重新连接
+     *
+     * Disconnect from the broker and stop reconnecting
+     */
+    close(): void {
+        this.closed = true
+        clearTimeout(this._reconnect)
+        this.socket?.destroy()
+        this._rejectConnect?.(new Error("Remote bus was closed before connecting to the broker"))
+        this._rejectConnect = undefined
+    }
+
+    protected override shouldForward(topic: string, to: number[]): boolean {
+        // 断开期间无法得知其他 worker 的订阅，因此缓存所有不只发给自己的事件
+        if (!this.connected) return to.length === 0 || to.some((workerId) => workerId !== this.workerId)
+        return super.shouldForward(topic, to)
+    }
+
+    protected send(message: PerikanRouterMessage): void {
+        if (this.connected && this.socket) return void writeFrame(this.socket, message)
+
+        // 订阅会在重新连接后重新同步，只需要缓存事件
+        if (message.type !== "event") return
+        this.buffer.push(message)
+        if (this.buffer.length > (this.options.maxBufferSize ?? 1000)) this.buffer.shift()
+    }
+
+    private _open(onConnect?: () => void) {
+        if (this.closed) return
+        const socket = createConnection({ host: this.options.host ?? "127.0.0.1", port: this.options.port })
+        this.socket = socket
+
+        socket.on("connect", () => {
+            this.connected = true
+            this._lastSeen = Date.now()
+
+            // 代理会在握手后重新发送其他 worker 的订阅
+            this.remoteSubscriptions.clear()
+            writeFrame(socket, { type: "hello", workerId: this.workerId })
+            for (const pattern of this.localPatterns.keys()) writeFrame(socket, { type: "subscribe", workerId: this.workerId, pattern })
+            for (const message of this.buffer.splice(0)) writeFrame(socket, message)
+
+            this._startHeartbeat(socket)
+            onConnect?.()
+            onConnect = undefined
+        })
+
+        readFrames(socket, this.options.maxFrameLength ?? DEFAULT_MAX_FRAME_LENGTH, (frame) => {
+            this._lastSeen = Date.now()
+            if (frame.type === "ping" || frame.type === "pong" || frame.type === "hello") return
+            this.receive(frame)
+        })
+
+        socket.on("error", () => {})
+        socket.on("close", () => {
+            if (this.socket !== socket) return
+            this.connected = false
+            clearInterval(this._heartbeat)
+            if (!this.closed) this._reconnect = setTimeout(() => this._open(onConnect), this.options.reconnectDelay ?? 1000)
+        })
+    }
+
+    private _startHeartbeat(socket: Socket) {
+        const interval = this.options.heartbeatInterval ?? 5000
+        clearInterval(this._heartbeat)
+        this._heartbeat = setInterval(() => {
+            if (Date.now() - this._lastSeen > interval * 2) return void socket.destroy()
+            writeFrame(socket, { type: "ping" })
+        }, interval)
+        this._heartbeat.unref()
+    }
+}
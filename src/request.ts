@@ -0,0 +1,120 @@
+import z from "zod"
+import type { Perikan } from "."
+import { PerikanEventCatalog } from "./catalog"
+import { PerikanEvent, type PerikanEventCreateOptions, type PerikanEventData, type PerikanEventDefaultOptions } from "./event"
+
+/**
+ * 请求的默认超时时间 (毫秒)
+ *
+ * The default timeout of requests (milliseconds)
+ */
+export const DEFAULT_REQUEST_TIMEOUT = 5000
+
+/**
+ * 回复事件的负载数据，通过 requestId 与请求事件的 id 关联
+ *
+ * The payload of reply events, correlated with the id of the request event by requestId
+ *
+ * @template Response 响应数据的类型 type of the response
+ */
+export type PerikanReply<Response> = { requestId: bigint; ok: true; result: Response } | { requestId: bigint; ok: false; error: string }
+
+/**
+ * 用于发起请求的选项的类型定义
+ *
+ * The type definition for the options used to send requests
+ *
+ * @template Request 请求负载数据的类型 type of the request payload
+ */
+export type PerikanRequestOptions<Request extends object> = PerikanEventCreateOptions<Request> & {
+    /**
+     * 等待回复的超时时间 (毫秒)
+     *
+     * Timeout of waiting for the reply (milliseconds)
+     */
+    timeout?: number
+}
+
+/**
+ * Perikan 请求类，由请求事件与回复事件组成
+ *
+ * The Perikan request class, consisting of a request event and a reply event
+ *
+ * @template Request 请求负载数据的类型 type of the request payload
+ * @template Response 响应数据的类型 type of the response
+ */
+export class PerikanRequest<Request extends object, Response> {
+    public readonly request: PerikanEvent<Request>
+    public readonly reply: PerikanEvent<PerikanReply<Response>>
+
+    /**
+     * 创建 PerikanRequest 实例
+     *
+     * Create a PerikanRequest instance
+     *
+     * @param topic 请求主题，回复主题为请求主题加上 `.reply` 后缀 request topic, the reply topic is the request topic with the `.reply` suffix
+     * @param requestSchema 请求负载数据的模式 request payload schema
+     * @param responseSchema 响应数据的模式 response schema
+     * @param opts 用于构建请求事件的默认选项 default options for building request events
+     */
+    constructor(
+        public readonly topic: string,
+        public readonly requestSchema: z.ZodType<Request>,
+        public readonly responseSchema: z.ZodType<Response>,
+        opts?: PerikanEventDefaultOptions<Request>
+    ) {
+        this.request = new PerikanEvent(topic, requestSchema, opts)
+        this.reply = new PerikanEvent(
+            `${topic}.reply`,
+            z.discriminatedUnion("ok", [
+                z.object({ requestId: z.bigint(), ok: z.literal(true), result: responseSchema }),
+                z.object({ requestId: z.bigint(), ok: z.literal(false), error: z.string() })
+            ]) as z.ZodType<PerikanReply<Response>>
+        )
+    }
+
+    /**
+     * 执行响应函数并将结果作为回复发送给请求方，响应函数抛出的错误会被回复给请求方后重新抛出
+     *
+     * Run the responder function and send the result back to the requester as a reply, errors thrown by the responder are replied to the requester and then rethrown
+     *
+     * @param perikan Perikan 实例 Perikan instance
+     * @param data 请求事件数据 request event data
+     * @param fn 响应函数 responder function
+     */
+    async respond(perikan: Perikan, data: PerikanEventData<Request>, fn: () => Response | Promise<Response>): Promise<void> {
+        // 回复只发送给发起请求的 worker
+        const opts = { to: [data.from], causedBy: data }
+        try {
+            const result = await fn()
+            await perikan.emit(this.reply, { requestId: data.id, ok: true, result }, opts)
+        } catch (err) {
+            await perikan.emit(this.reply, { requestId: data.id, ok: false, error: err instanceof Error ? err.message : String(err) }, opts)
+            throw err
+        }
+    }
+}
+
+/**
+ * 定义一个 Perikan 请求，请求事件与回复事件会被注册到全局事件目录中
+ *
+ * Define a Perikan request, the request and reply events are registered in the global event catalog
+ *
+ * @template Request 请求负载数据的类型 type of the request payload
+ * @template Response 响应数据的类型 type of the response
+ * @param topic 请求主题 request topic
+ * @param requestSchema 请求负载数据的模式 request payload schema
+ * @param responseSchema 响应数据的模式 response schema
+ * @param opts 用于构建请求事件的默认选项 default options for building request events
+ * @returns Perikan 请求实例 Perikan request instance
+ */
+export function defineRequest<Request extends object, Response>(
+    topic: string,
+    requestSchema: z.ZodType<Request>,
+    responseSchema: z.ZodType<Response>,
+    opts?: PerikanEventDefaultOptions<Request>
+) {
+    const request = new PerikanRequest(topic, requestSchema, responseSchema, opts)
+    PerikanEventCatalog.register(request.request).register(request.reply)
+    return request
+}
@@ -0,0 +1,107 @@
+import z from "zod"
+import { PerikanEventDataSchema, definePerikanEvent } from "./event"
+
+/**
+ * 重试策略
+ *
+ * Retry policy
+ */
+export type PerikanRetryPolicy = {
+    /**
+     * 最大尝试次数，包含第一次执行
+     *
+     * Maximum number of attempts, including the first execution
+     */
+    maxAttempts: number
+    /**
+     * 退避方式，默认为固定间隔
+     *
+     * Backoff strategy, fixed by default
+     */
+    backoff?: "fixed" | "exponential"
+    /**
+     * 基础重试间隔 (毫秒)，默认为 100
+     *
+     * Base retry delay (milliseconds), 100 by default
+     */
+    delay?: number
+    /**
+     * 最大重试间隔 (毫秒)
+     *
+     * Maximum retry delay (milliseconds)
+     */
+    maxDelay?: number
+    /**
+     * 是否为重试间隔添加随机抖动
+     *
+     * Whether to add random jitter to the retry delay
+     */
+    jitter?: boolean
+    /**
+     * 判断错误是否可以重试，默认所有错误都可以重试
+     *
+     * Determine whether the error is retryable, all errors are retryable by default
+     */
+    retryable?: (error: unknown, attempt: number) => boolean
+}
+
+/**
+ * 判断在第 attempt 次尝试失败后是否应该继续重试
+ *
+ * Determine whether to retry after the attempt-th attempt failed
+ *
+ * @param policy 重试策略 retry policy
+ * @param error 失败的错误 error of the failure
+ * @param attempt 已经进行的尝试次数 number of attempts made
+ * @returns 是否重试 whether to retry
+ */
+export function shouldRetry(policy: PerikanRetryPolicy, error: unknown, attempt: number): boolean {
+    if (attempt >= policy.maxAttempts) return false
+    return policy.retryable?.(error, attempt) ?? true
+}
+
+/**
+ * 计算第 attempt 次尝试失败后的重试间隔
+ *
+ * Compute the retry delay after the attempt-th attempt failed
+ *
+ * @param policy 重试策略 retry policy
+ * @param attempt 已经进行的尝试次数 number of attempts made
+ * @returns 重试间隔 (毫秒) retry delay (milliseconds)
+ */
+export function computeRetryDelay(policy: PerikanRetryPolicy, attempt: number): number {
+    const base = policy.delay ?? 100
+    let delay = policy.backoff === "exponential" ? base * 2 ** (attempt - 1) : base
+    if (policy.maxDelay !== undefined) delay = Math.min(delay, policy.maxDelay)
+    // 抖动保留一半的间隔，另一半随机分布，避免大量重试同时发生
+    if (policy.jitter) delay = delay / 2 + Math.random() * (delay / 2)
+    return delay
+}
+
+/**
+ * 死信事件负载数据的模式
+ *
+ * The schema of dead-letter event payloads
+ */
+export const PerikanDeadLetterSchema = z.object({
+    original: PerikanEventDataSchema,
+    subscriptionId: z.string(),
+    status: z.enum(["rejected", "timeout"]),
+    error: z.string(),
+    attempts: z.number(),
+    failedAt: z.number()
+})
+
+/**
+ * 死信事件负载数据的类型
+ *
+ * The type of dead-letter event payloads
+ */
+export type PerikanDeadLetter = z.infer<typeof PerikanDeadLetterSchema>
+
+/**
+ * 死信事件，处理器在重试耗尽后仍然失败时，原始事件数据与失败信息会通过该事件发布
+ *
+ * The dead-letter event, the original event data and failure information are published through it once a handler still fails after retries are exhausted
+ */
+export const PerikanDeadLetterEvent = definePerikanEvent("perikan.dead-letter", PerikanDeadLetterSchema)
@@ -0,0 +1,313 @@
+import { PerikanTopicTrie } from "./topic"
+import {
+    PerikanLocalBus,
+    type EventHandler,
+    type PerikanDeliveryReport,
+    type PerikanInternalBusOptions,
+    type PerikanSubscriptionOptions
+} from "./bus"
+import type { PerikanEvent, PerikanEventData } from "./event"
+import { PerikanEventRegistry } from "./registry"
+import { PerikanEventCatalog } from "./catalog"
+
+/**
+ * 跨进程或跨线程的总线之间传递的消息
+ *
+ * Messages passed between buses across processes or threads
+ */
+export type PerikanRouterMessage =
+    | { type: "subscribe"; workerId: number; pattern: string }
+    | { type: "unsubscribe"; workerId: number; pattern: string }
+    | { type: "event"; topic: string; from: number; to: number[]; data: unknown }
+
+/**
+ * 记录每个 worker 订阅了哪些主题模式
+ *
+ * Records which topic patterns each worker has subscribed to
+ */
+export class PerikanSubscriptionTable {
+    private readonly workers: Map<number, { trie: PerikanTopicTrie<string>; patterns: Set<string> }> = new Map()
+
+    /**
+     * 记录 worker 的订阅
+     *
+     * Record a subscription of the worker
+     *
+     * @returns 是否为新的订阅 whether it is a new subscription
+     */
+    add(workerId: number, pattern: string): boolean {
+        let entry = this.workers.get(workerId)
+        if (!entry) {
+            entry = { trie: new PerikanTopicTrie(), patterns: new Set() }
+            this.workers.set(workerId, entry)
+        }
+        if (entry.patterns.has(pattern)) return false
+        entry.patterns.add(pattern)
+        entry.trie.add(pattern, pattern)
+        return true
+    }
+
+    /**
+     * 移除 worker 的订阅
+     *
+     * Remove a subscription of the worker
+     *
+     * @returns 是否移除成功 whether the subscription was removed
+     */
+    delete(workerId: number, pattern: string): boolean {
+        const entry = this.workers.get(workerId)
+        if (!entry || !entry.patterns.delete(pattern)) return false
+        entry.trie.delete(pattern, pattern)
+        if (entry.patterns.size === 0) this.workers.delete(workerId)
+        return true
+    }
+
+    /**
+     * 移除 worker 的所有订阅
+     *
+     * Remove all subscriptions of the worker
+     *
+     * @returns 被移除的主题模式 the removed topic patterns
+     */
+    remove(workerId: number): string[] {
+        const patterns = Array.from(this.workers.get(workerId)?.patterns ?? [])
+        this.workers.delete(workerId)
+        return patterns
+    }
+
+    /**
+     * 清空所有订阅
+     *
+     * Clear all subscriptions
+     */
+    clear(): void {
+        this.workers.clear()
+    }
+
+    /**
+     * 获取所有订阅
+     *
+     * Get all subscriptions
+     */
+    *entries(): IterableIterator<[workerId: number, pattern: string]> {
+        for (const [workerId, { patterns }] of this.workers) {
+            for (const pattern of patterns) yield [workerId, pattern]
+        }
+    }
+
+    /**
+     * 判断除 exclude 外是否有 worker 精确订阅了主题，不进行通配符匹配
+     *
+     * Determine whether any worker other than exclude subscribed to the exact topic, without wildcard matching
+     *
+     * @param topic 主题 topic
+     * @param exclude 排除的 worker id excluded worker id
+     */
+    hasExact(topic: string, exclude?: number): boolean {
+        for (const [workerId, { patterns }] of this.workers) {
+            if (workerId !== exclude && patterns.has(topic)) return true
+        }
+        return false
+    }
+
+    /**
+     * 获取订阅了主题且被事件寻址的 worker，to 为空时视为广播
+     *
+     * Get the workers that subscribed to the topic and are addressed by the event, an empty to means broadcast
+     *
+     * @param topic 主题 topic
+     * @param to 目标 worker id target worker ids
+     * @param exclude 排除的 worker id excluded worker id
+     * @returns worker id 列表 list of worker ids
+     */
+    targets(topic: string, to: number[], exclude?: number): number[] {
+        const targets: number[] = []
+        for (const [workerId, { trie }] of this.workers) {
+            if (workerId === exclude) continue
+            if (to.length > 0 && !to.includes(workerId)) continue
+            if (trie.match(topic).size > 0) targets.push(workerId)
+        }
+        return targets
+    }
+}
+
+/**
+ * 与传输方式无关的路由器，在多个 worker 之间同步订阅并转发事件，只会将事件转发给订阅了对应主题的 worker
+ *
+ * Transport-agnostic router, syncing subscriptions and forwarding events between workers, events are only forwarded to workers that subscribed to the topic
+ */
+export class PerikanRouter {
+    private readonly peers: Map<number, (message: PerikanRouterMessage) => void> = new Map()
+    private readonly table = new PerikanSubscriptionTable()
+
+    /**
+     * 连接一个 worker，并将其他 worker 已有的订阅同步给它
+     *
+     * Connect a worker and sync the existing subscriptions of other workers to it
+     *
+     * @param workerId worker id
+     * @param send 向该 worker 发送消息的函数 function sending messages to the worker
+     */
+    connect(workerId: number, send: (message: PerikanRouterMessage) => void): void {
+        if (this.peers.has(workerId)) this.disconnect(workerId)
+        this.peers.set(workerId, send)
+        for (const [subscriber, pattern] of this.table.entries()) {
+            if (subscriber !== workerId) send({ type: "subscribe", workerId: subscriber, pattern })
+        }
+    }
+
+    /**
+     * 断开一个 worker，并通知其他 worker 移除它的订阅
+     *
+     * Disconnect a worker and notify other workers to remove its subscriptions
+     *
+     * @param workerId worker id
+     */
+    disconnect(workerId: number): void {
+        if (!this.peers.delete(workerId)) return
+        for (const pattern of this.table.remove(workerId)) this._broadcast({ type: "unsubscribe", workerId, pattern }, workerId)
+    }
+
+    /**
+     * 处理来自 worker 的消息
+     *
+     * Handle a message from a worker
+     *
+     * @param workerId 发送消息的 worker id id of the worker sending the message
+     * @param message 消息 message
+     */
+    receive(workerId: number, message: PerikanRouterMessage): void {
+        switch (message.type) {
+            case "subscribe":
+                if (this.table.add(workerId, message.pattern)) this._broadcast({ ...message, workerId }, workerId)
+                break
+            case "unsubscribe":
+                if (this.table.delete(workerId, message.pattern)) this._broadcast({ ...message, workerId }, workerId)
+                break
+            case "event":
+                for (const target of this.table.targets(message.topic, message.to, workerId)) this.peers.get(target)?.(message)
+                break
+        }
+    }
+
+    private _broadcast(message: PerikanRouterMessage, exclude: number): void {
+        for (const [workerId, send] of this.peers) {
+            if (workerId !== exclude) send(message)
+        }
+    }
+}
+
+export type PerikanPeerBusOptions = PerikanInternalBusOptions & {
+    workerId: number
+    /**
+     * 用于验证来自其他 worker 的事件的注册表，通过 on 订阅的事件会被自动注册，注册表中没有的主题从全局事件目录中查找
+     *
+     * Registry used to validate events from other workers, events subscribed through on are registered automatically, topics missing from the registry are looked up in the global event catalog
+     */
+    registry?: PerikanEventRegistry
+}
+
+/**
+ * 连接到 PerikanRouter 的事件总线的基类，本地处理器的投递与 PerikanLocalBus 相同，同时将订阅同步给路由器并将事件转发给订阅了该主题的其他 worker
+ *
+ * Base class of event buses connected to a PerikanRouter, delivering to local handlers like PerikanLocalBus while syncing subscriptions to the router and forwarding events to other workers subscribed to the topic
+ */
+export abstract class PerikanPeerBus extends PerikanLocalBus {
+    protected readonly registry: PerikanEventRegistry
+
+    // 其他 worker 的订阅，用于避免向没有处理器的 worker 发送事件
+    protected readonly remoteSubscriptions = new PerikanSubscriptionTable()
+    // 本地每个主题模式的订阅数量，只在第一个订阅与最后一个取消订阅时通知路由器
+    protected readonly localPatterns: Map<string, number> = new Map()
+
+    constructor(protected override readonly options: PerikanPeerBusOptions) {
+        super(options)
+        this.registry = options.registry ?? new PerikanEventRegistry()
+    }
+
+    /**
+     * 向路由器发送消息
+     *
+     * Send a message to the router
+     */
+    protected abstract send(message: PerikanRouterMessage): void
+
+    override on<Payload extends object>(
+        event: PerikanEvent<Payload>,
+        handler: EventHandler<Payload>,
+        options?: PerikanSubscriptionOptions
+    ): () => void {
+        this.registry.register(event)
+        return super.on(event, handler, options)
+    }
+
+    override onPattern(pattern: string, handler: EventHandler<any>, options?: PerikanSubscriptionOptions): () => void {
+        const unbind = super.onPattern(pattern, handler, options)
+
+        const count = this.localPatterns.get(pattern) ?? 0
+        this.localPatterns.set(pattern, count + 1)
+        if (count === 0) this.send({ type: "subscribe", workerId: this.workerId, pattern })
+
+        let bound = true
+        return () => {
+            if (!bound) return
+            bound = false
+            unbind()
+
+            const count = this.localPatterns.get(pattern)! - 1
+            if (count > 0) return void this.localPatterns.set(pattern, count)
+            this.localPatterns.delete(pattern)
+            this.send({ type: "unsubscribe", workerId: this.workerId, pattern })
+        }
+    }
+
+    override hasListeners(topic: string, exact = false): boolean {
+        if (super.hasListeners(topic, exact)) return true
+        if (exact) return this.remoteSubscriptions.hasExact(topic, this.workerId)
+        return this.remoteSubscriptions.targets(topic, [], this.workerId).length > 0
+    }
+
+    /**
+     * 发布事件，返回的投递报告只包含当前 worker 上的处理器
+     *
+     * Emit an event, the returned delivery report only contains the handlers on the current worker
+     */
+    override async emit(event: PerikanEvent<any>, eventData: PerikanEventData<any>): Promise<PerikanDeliveryReport> {
+        // 只有有效且需要转发的事件才会被发送给路由器
+        if (this.shouldForward(event.topic, eventData.to) && event.validate(eventData)) {
+            this.send({ type: "event", topic: event.topic, from: this.workerId, to: eventData.to, data: eventData })
+        }
+        return super.emit(event, eventData)
+    }
+
+    /**
+     * 判断事件是否需要转发给其他 worker
+     *
+     * Determine whether the event needs to be forwarded to other workers
+     */
+    protected shouldForward(topic: string, to: number[]): boolean {
+        return this.remoteSubscriptions.targets(topic, to, this.workerId).length > 0
+    }
+
+    /**
+     * 处理来自路由器的消息
+     *
+     * Handle a message from the router
+     */
+    protected receive(message: PerikanRouterMessage): void {
+        switch (message.type) {
+            case "subscribe":
+                this.remoteSubscriptions.add(message.workerId, message.pattern)
+                break
+            case "unsubscribe":
+                this.remoteSubscriptions.delete(message.workerId, message.pattern)
+                break
+            case "event": {
+                // 无法验证注册表与全局事件目录中都没有的主题的事件，因此直接忽略
+                const event = this.registry.get(message.topic) ?? PerikanEventCatalog.get(message.topic)
+                if (event) void super.emit(event, message.data as PerikanEventData<any>)
+                break
+            }
+        }
+    }
+}
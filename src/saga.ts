@@ -0,0 +1,527 @@
+import type { Perikan } from "."
+import type { PerikanSubscriptionOptions } from "./bus"
+import { PerikanEventCatalog } from "./catalog"
+import type { PerikanEvent, PerikanEventCreateOptions, PerikanEventData } from "./event"
+import { PerikanEventRegistry } from "./registry"
+
+/**
+ * Saga 实例的状态，running 为运行中，completed 为已完成，compensated 为失败并已发出补偿
+ *
+ * Status of a saga instance, running while in progress, completed once finished, compensated once failed with its compensations emitted
+ */
+export type PerikanSagaStatus = "running" | "completed" | "compensated"
+
+/**
+ * 持久化的 Saga 实例
+ *
+ * Persisted saga instance
+ *
+ * @template State Saga 状态的类型 type of the saga state
+ */
+export type PerikanSagaInstance<State> = {
+    saga: string
+    /**
+     * 从事件负载中提取的关联键
+     *
+     * Correlation key extracted from the event payloads
+     */
+    key: string
+    state: State
+    status: PerikanSagaStatus
+    /**
+     * 实例的版本，每次保存时递增，用于检测并发修改
+     *
+     * Version of the instance, incremented on every save, used to detect concurrent modifications
+     */
+    version: number
+    /**
+     * 尚未触发的超时及其触发时间 (毫秒时间戳)
+     *
+     * Pending timeouts and when they fire (millisecond timestamps)
+     */
+    timeouts: { name: string; at: number }[]
+    /**
+     * 失败时按照相反的顺序发出的补偿事件
+     *
+     * Compensation events emitted in reverse order on failure
+     */
+    compensations: { topic: string; payload: object }[]
+    /**
+     * 失败的原因
+     *
+     * Reason of the failure
+     */
+    error?: string
+    startedAt: number
+    updatedAt: number
+}
+
+/**
+ * Saga 状态存储
+ *
+ * Saga state store
+ */
+export interface IPerikanSagaStore {
+    load(saga: string, key: string): Promise<PerikanSagaInstance<any> | undefined>
+    /**
+     * 保存实例，存储中的版本不等于 instance.version - 1 时应该抛出错误
+     *
+     * Save the instance, an error should be thrown when the stored version is not instance.version - 1
+     */
+    save(instance: PerikanSagaInstance<any>): Promise<void>
+    /**
+     * 列出指定 Saga 的所有运行中的实例，用于恢复超时
+     *
+     * List every running instance of the given saga, used to restore timeouts
+     */
+    running(saga: string): AsyncIterable<PerikanSagaInstance<any>>
+}
+
+/**
+ * 基于内存的 Saga 状态存储，保存与读取时都会复制实例
+ *
+ * In-memory saga state store, instances are copied on both save and load
+ */
+export class PerikanMemorySagaStore implements IPerikanSagaStore {
+    protected readonly instances: Map<string, PerikanSagaInstance<any>> = new Map()
+
+    async load(saga: string, key: string): Promise<PerikanSagaInstance<any> | undefined> {
+        const instance = this.instances.get(`${saga}/${key}`)
+        return instance && structuredClone(instance)
+    }
+
+    async save(instance: PerikanSagaInstance<any>): Promise<void> {
+        const id = `${instance.saga}/${instance.key}`
+        const stored = this.instances.get(id)
+        if ((stored?.version ?? 0) !== instance.version - 1) throw new Error(`Saga instance ${id} was modified concurrently`)
+        this.instances.set(id, structuredClone(instance))
+    }
+
+    async *running(saga: string): AsyncIterableIterator<PerikanSagaInstance<any>> {
+        for (const instance of this.instances.values()) {
+            if (instance.saga === saga && instance.status === "running") yield structuredClone(instance)
+        }
+    }
+}
+
+/**
+ * Saga 处理函数的上下文，对上下文的操作会在状态保存之后生效
+ *
+ * Context of saga handlers, operations on the context take effect after the state is saved
+ *
+ * @template State Saga 状态的类型 type of the saga state
+ */
+export type PerikanSagaContext<State> = {
+    readonly saga: string
+    readonly key: string
+    /**
+     * 实例的状态，可以直接修改，也可以由处理函数返回新的状态
+     *
+     * State of the instance, either modified in place or replaced by returning a new state from the handler
+     */
+    state: State
+    /**
+     * 在状态保存之后发布命令事件，由当前事件触发时会自动填充 causationId 与 correlationId
+     *
+     * Emit a command event after the state is saved, causationId and correlationId are filled automatically when triggered by an event
+     */
+    emit<Payload extends object>(event: PerikanEvent<Payload>, payload: Payload, opts?: Omit<PerikanEventCreateOptions<Payload>, "payload">): void
+    /**
+     * 安排一个超时，同名的超时会被替换
+     *
+     * Schedule a timeout, a timeout with the same name is replaced
+     */
+    schedule(name: string, ms: number): void
+    /**
+     * 取消一个超时
+     *
+     * Cancel a timeout
+     */
+    cancel(name: string): void
+    /**
+     * 记录一个补偿事件，Saga 失败时补偿事件会按照记录的相反顺序发出
+     *
+     * Record a compensation event, compensations are emitted in the reverse order they were recorded when the saga fails
+     */
+    compensateWith<Payload extends object>(event: PerikanEvent<Payload>, payload: Payload): void
+    /**
+     * 将 Saga 标记为已完成，取消所有超时
+     *
+     * Mark the saga as completed, cancelling every timeout
+     */
+    complete(): void
+    /**
+     * 将 Saga 标记为失败，取消所有超时并发出补偿事件
+     *
+     * Mark the saga as failed, cancelling every timeout and emitting the compensations
+     */
+    fail(reason: string): void
+}
+
+/**
+ * 处理事件的 Saga 处理函数，返回值不为 undefined 时替换实例的状态
+ *
+ * Saga handler processing an event, the returned value replaces the state of the instance when it is not undefined
+ */
+export type PerikanSagaEventHandler<State, Payload extends object> = (
+    ctx: PerikanSagaContext<State> & { readonly data: PerikanEventData<Payload>; readonly payload: Payload }
+) => State | void | Promise<State | void>
+
+/**
+ * 处理超时的 Saga 处理函数，返回值不为 undefined 时替换实例的状态
+ *
+ * Saga handler processing a timeout, the returned value replaces the state of the instance when it is not undefined
+ */
+export type PerikanSagaTimeoutHandler<State> = (ctx: PerikanSagaContext<State>) => State | void | Promise<State | void>
+
+/**
+ * 运行 Saga 的选项
+ *
+ * Options of running a saga
+ */
+export type PerikanSagaCommitOptions = {
+    /**
+     * 状态存储，默认为新的内存存储
+     *
+     * State store, a new in-memory store by default
+     */
+    store?: IPerikanSagaStore
+    /**
+     * 订阅事件时使用的选项
+     *
+     * Options used when subscribing to the events
+     */
+    subscription?: PerikanSubscriptionOptions
+    /**
+     * 处理超时、恢复超时或发出补偿事件时发生错误的回调，事件处理中的错误会交给总线处理
+     *
+     * Callback invoked when processing or restoring timeouts or emitting compensations fails, errors while processing events are handed to the bus
+     */
+    onError?: (error: unknown, key?: string) => void
+}
+
+type SagaStep<State> = {
+    event: PerikanEvent<any>
+    correlate: (payload: any) => string | number | bigint
+    handler?: PerikanSagaEventHandler<State, any>
+    /**
+     * 启动事件创建初始状态的函数，不是启动事件时为 undefined
+     *
+     * Function creating the initial state from a starting event, undefined when the event does not start instances
+     */
+    initial?: (data: PerikanEventData<any>) => State
+}
+
+// setTimeout 能够接受的最大延迟，更长的超时会分段等待
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+type SagaCommand = { event: PerikanEvent<any>; payload: object; opts?: Omit<PerikanEventCreateOptions<any>, "payload"> }
+
+/**
+ * Saga (流程管理器)，通过从负载中提取的关联键将多个主题的事件关联到同一个实例，并持久化每个实例的状态
+ *
+ * Saga (process manager), correlating events of several topics to the same instance by a key extracted from the payloads, and persisting the state of every instance
+ *
+ * @template State Saga 状态的类型 type of the saga state
+ */
+export class PerikanSaga<State> {
+    protected readonly steps: SagaStep<State>[] = []
+    protected readonly timeoutHandlers: Map<string, PerikanSagaTimeoutHandler<State>> = new Map()
+
+    constructor(public readonly name: string) {}
+
+    /**
+     * 添加一个可以启动新实例的事件，关联键没有对应的实例时创建新实例
+     *
+     * Add an event that can start a new instance, a new instance is created when no instance matches the correlation key
+     *
+     * @param event 事件 event
+     * @param correlate 从负载中提取关联键的函数 function extracting the correlation key from the payload
+     * @param initial 根据启动事件创建初始状态的函数 function creating the initial state from the starting event
+     * @param handler 处理函数 handler
+     */
+    startedBy<Payload extends object>(
+        event: PerikanEvent<Payload>,
+        correlate: (payload: Payload) => string | number | bigint,
+        initial: (data: PerikanEventData<Payload>) => State,
+        handler?: PerikanSagaEventHandler<State, Payload>
+    ) {
+        return this.addStep({ event, correlate, handler, initial })
+    }
+
+    /**
+     * 添加一个由运行中的实例处理的事件，没有对应的运行中的实例时事件会被忽略
+     *
+     * Add an event handled by running instances, the event is ignored when no running instance matches
+     *
+     * @param event 事件 event
+     * @param correlate 从负载中提取关联键的函数 function extracting the correlation key from the payload
+     * @param handler 处理函数 handler
+     */
+    on<Payload extends object>(
+        event: PerikanEvent<Payload>,
+        correlate: (payload: Payload) => string | number | bigint,
+        handler: PerikanSagaEventHandler<State, Payload>
+    ) {
+        return this.addStep({ event, correlate, handler })
+    }
+
+    /**
+     * 设置指定超时触发时的处理函数，没有处理函数的超时会使 Saga 失败
+     *
+     * Set the handler running when the given timeout fires, timeouts without handlers fail the saga
+     *
+     * @param name 超时的名称 name of the timeout
+     * @param handler 处理函数 handler
+     */
+    onTimeout(name: string, handler: PerikanSagaTimeoutHandler<State>) {
+        this.timeoutHandlers.set(name, handler)
+        return this
+    }
+
+    /**
+     * 在 Perikan 实例上运行 Saga，并恢复存储中运行中的实例的超时
+     *
+     * Run the saga on the Perikan instance, restoring the timeouts of the running instances in the store
+     *
+     * @param perikan Perikan 实例 Perikan instance
+     * @param options 运行选项 run options
+     * @returns 停止运行的函数 function to stop running
+     */
+    commit(perikan: Perikan, options: PerikanSagaCommitOptions = {}): () => void {
+        const runner = new PerikanSagaRunner(this, this.steps, this.timeoutHandlers, perikan, options)
+        return runner.start()
+    }
+
+    protected addStep(step: SagaStep<State>) {
+        if (this.steps.some((existing) => existing.event.topic === step.event.topic)) {
+            throw new Error(`Event ${step.event.topic} is already handled by saga ${this.name}`)
+        }
+        this.steps.push(step)
+        return this
+    }
+}
+
+class PerikanSagaRunner<State> {
+    protected readonly store: IPerikanSagaStore
+    // 同一实例的事件与超时依次处理
+    protected readonly queues: Map<string, Promise<void>> = new Map()
+    protected readonly timers: Map<string, Map<string, ReturnType<typeof setTimeout>>> = new Map()
+    // 用于根据主题找到补偿事件，未使用过的事件从全局事件目录中查找
+    protected readonly events: PerikanEventRegistry = new PerikanEventRegistry()
+    protected stopped = false
+
+    constructor(
+        protected readonly saga: PerikanSaga<State>,
+        protected readonly steps: SagaStep<State>[],
+        protected readonly timeoutHandlers: Map<string, PerikanSagaTimeoutHandler<State>>,
+        protected readonly perikan: Perikan,
+        protected readonly options: PerikanSagaCommitOptions
+    ) {
+        this.store = options.store ?? new PerikanMemorySagaStore()
+    }
+
+    start(): () => void {
+        const unbinds = this.steps.map((step) =>
+            this.perikan.on(
+                step.event,
+                async (data) => {
+                    const key = String(step.correlate(data.payload))
+                    const effects = await this.serialize(key, () => this.handleEvent(step, key, data))
+                    // 命令在释放实例的队列之后发出，命令的处理器可以同步地发布同一实例的后续事件
+                    await effects?.()
+                },
+                this.options.subscription
+            )
+        )
+        this.restore().catch((error) => this.options.onError?.(error))
+
+        return () => {
+            this.stopped = true
+            unbinds.forEach((unbind) => unbind())
+            for (const key of Array.from(this.timers.keys())) this.clearTimers(key)
+        }
+    }
+
+    protected async restore() {
+        for await (const { key } of this.store.running(this.saga.name)) {
+            if (this.stopped) return
+            // 在实例的队列中重新读取，避免使用被并发处理覆盖的超时
+            await this.serialize(key, async () => {
+                const instance = await this.store.load(this.saga.name, key)
+                if (instance?.status === "running") this.armTimers(instance)
+            })
+        }
+    }
+
+    protected async handleEvent(step: SagaStep<State>, key: string, data: PerikanEventData<any>) {
+        let instance = await this.store.load(this.saga.name, key)
+        if (instance && instance.status !== "running") return
+        if (!instance) {
+            // 没有运行中的实例时，只有启动事件会创建新实例
+            if (!step.initial) return
+            const now = Date.now()
+            instance = {
+                saga: this.saga.name,
+                key,
+                state: step.initial(data),
+                status: "running",
+                version: 0,
+                timeouts: [],
+                compensations: [],
+                startedAt: now,
+                updatedAt: now
+            }
+        }
+        return this.transition(instance, data, (ctx) => step.handler?.({ ...ctx, data, payload: data.payload }))
+    }
+
+    protected async handleTimeout(key: string, name: string, at: number) {
+        const instance = await this.store.load(this.saga.name, key)
+        // 超时在等待期间可能已经被取消、以相同的名称重新安排，或者实例已经结束
+        if (!instance || instance.status !== "running" || !instance.timeouts.some((timeout) => timeout.name === name && timeout.at === at)) return
+        instance.timeouts = instance.timeouts.filter((timeout) => timeout.name !== name)
+
+        const handler = this.timeoutHandlers.get(name)
+        return this.transition(instance, undefined, (ctx) => {
+            if (handler) return handler(ctx)
+            ctx.fail(`Saga ${this.saga.name} timed out: ${name}`)
+        })
+    }
+
+    /**
+     * 运行处理函数并保存实例，返回在释放实例的队列之后发出命令与补偿事件的函数
+     *
+     * Run the handler and save the instance, returning the function emitting the commands and compensations after the queue of the instance is released
+     */
+    protected async transition(
+        instance: PerikanSagaInstance<State>,
+        data: PerikanEventData<any> | undefined,
+        run: (ctx: PerikanSagaContext<State>) => State | void | Promise<State | void>
+    ): Promise<() => Promise<void>> {
+        const commands: SagaCommand[] = []
+        const ctx: PerikanSagaContext<State> = {
+            saga: this.saga.name,
+            key: instance.key,
+            state: instance.state,
+            emit: (event, payload, opts) => {
+                commands.push({ event, payload, opts })
+            },
+            schedule: (name, ms) => {
+                instance.timeouts = [...instance.timeouts.filter((timeout) => timeout.name !== name), { name, at: Date.now() + ms }]
+            },
+            cancel: (name) => {
+                instance.timeouts = instance.timeouts.filter((timeout) => timeout.name !== name)
+            },
+            compensateWith: (event, payload) => {
+                this.events.register(event)
+                instance.compensations.push({ topic: event.topic, payload })
+            },
+            complete: () => {
+                instance.status = "completed"
+            },
+            fail: (reason) => {
+                instance.status = "compensated"
+                instance.error = reason
+            }
+        }
+
+        const state = await run(ctx)
+        instance.state = state === undefined ? ctx.state : state
+        if (instance.status !== "running") instance.timeouts = []
+        instance.version++
+        instance.updatedAt = Date.now()
+        await this.store.save(instance)
+        this.armTimers(instance)
+
+        const causedBy = data && { causedBy: data }
+        return async () => {
+            for (const { event, payload, opts } of commands) await this.perikan.emit(event, payload, { ...causedBy, ...opts })
+            if (instance.status === "compensated") await this.compensate(instance.key, causedBy)
+        }
+    }
+
+    /**
+     * 按照记录的相反顺序发出补偿事件，每发出一个补偿事件都会保存进度，失败时停止并交给 onError
+     *
+     * Emit the compensations in the reverse order they were recorded, saving the progress after each one, stopping and reporting to onError on failure
+     */
+    protected async compensate(key: string, causedBy: { causedBy: PerikanEventData<any> } | undefined) {
+        try {
+            while (true) {
+                const instance = await this.store.load(this.saga.name, key)
+                const compensation = instance?.compensations.at(-1)
+                if (!instance || !compensation) return
+
+                const event = this.events.get(compensation.topic) ?? PerikanEventCatalog.get(compensation.topic)
+                if (!event) throw new Error(`Unknown compensation event topic: ${compensation.topic}`)
+                await this.perikan.emit(event, compensation.payload, causedBy)
+
+                await this.serialize(key, async () => {
+                    const current = await this.store.load(this.saga.name, key)
+                    if (current?.compensations.at(-1)?.topic !== compensation.topic) return
+                    current.compensations.pop()
+                    current.version++
+                    current.updatedAt = Date.now()
+                    await this.store.save(current)
+                })
+            }
+        } catch (error) {
+            this.options.onError?.(error, key)
+        }
+    }
+
+    protected serialize<T>(key: string, fn: () => Promise<T>): Promise<T> {
+        const current = (this.queues.get(key) ?? Promise.resolve()).then(fn)
+        const tail = current.then(
+            () => {},
+            () => {}
+        )
+        this.queues.set(key, tail)
+        tail.then(() => {
+            if (this.queues.get(key) === tail) this.queues.delete(key)
+        })
+        return current
+    }
+
+    protected armTimers(instance: PerikanSagaInstance<State>) {
+        this.clearTimers(instance.key)
+        if (this.stopped || instance.timeouts.length === 0) return
+        const timers = new Map<string, ReturnType<typeof setTimeout>>()
+        this.timers.set(instance.key, timers)
+
+        const arm = (name: string, at: number) => {
+            // 超过 setTimeout 最大延迟的超时分段等待，提前触发时重新等待剩余的时间
+            const timer = setTimeout(
+                () => {
+                    if (Date.now() < at) return arm(name, at)
+                    timers.delete(name)
+                    this.serialize(instance.key, () => this.handleTimeout(instance.key, name, at))
+                        .then((effects) => effects?.())
+                        .catch((error) => this.options.onError?.(error, instance.key))
+                },
+                Math.min(MAX_TIMER_DELAY, Math.max(0, at - Date.now()))
+            )
+            timers.set(name, timer)
+        }
+        for (const { name, at } of instance.timeouts) arm(name, at)
+    }
+
+    protected clearTimers(key: string) {
+        this.timers.get(key)?.forEach((timer) => clearTimeout(timer))
+        this.timers.delete(key)
+    }
+}
+
+/**
+ * 定义一个 Saga
+ *
+ * Define a saga
+ *
+ * @template State Saga 状态的类型 type of the saga state
+ * @param name Saga 的名称，同时作为存储中实例的命名空间 name of the saga, also the namespace of its instances in the store
+ * @returns Saga 实例 saga instance
+ */
+export function defineSaga<State>(name: string) {
+    return new PerikanSaga<State>(name)
+}
@@ -1,30 +1,203 @@
+/**
+ * 时钟回拨时的处理策略，wait 为等待时钟追上，throw 为直接抛出错误，logical 为继续使用逻辑时钟生成 ID
+ *
+ * Policy on clock rollback, wait waits for the clock to catch up, throw throws an error, logical keeps generating IDs on a logical clock
+ */
+export type SnowFlakeClockRollbackPolicy = "wait" | "throw" | "logical"
+
+/**
+ * SnowFlake ID 的位布局
+ *
+ * Bit layout of SnowFlake IDs
+ */
+export type SnowFlakeLayout = {
+    /**
+     * 起始时间戳 (毫秒)，默认为 2024-01-01 00:00:00 UTC
+     *
+     * Epoch timestamp (milliseconds), 2024-01-01 00:00:00 UTC by default
+     */
+    epoch?: number
+    /**
+     * worker id 的位数，默认为 10
+     *
+     * Number of bits of the worker id, 10 by default
+     */
+    workerIdBits?: number
+    /**
+     * 序列号的位数，默认为 12
+     *
+     * Number of bits of the sequence, 12 by default
+     */
+    sequenceBits?: number
+}
+
+export type SnowFlakeOptions = SnowFlakeLayout & {
+    /**
+     * 时钟回拨时的处理策略，默认为 wait
+     *
+     * Policy on clock rollback, wait by default
+     */
+    clockRollback?: SnowFlakeClockRollbackPolicy
+    /**
+     * wait 策略下允许等待的最大回拨时长 (毫秒)，超出时抛出错误，默认为 5000
+     *
+     * Maximum rollback to wait for under the wait policy (milliseconds), an error is thrown when exceeded, 5000 by default
+     */
+    maxRollback?: number
+    /**
+     * 获取当前时间的函数，默认为 Date.now
+     *
+     * Function getting the current time, Date.now by default
+     */
+    clock?: () => number
+}
+
+/**
+ * 从 SnowFlake ID 中解析出的各个部分
+ *
+ * Parts decoded from a SnowFlake ID
+ */
+export type SnowFlakeParts = {
+    /**
+     * 生成 ID 时的时间戳 (毫秒)
+     *
+     * Timestamp when the ID was generated (milliseconds)
+     */
+    timestamp: number
+    workerId: number
+    sequence: number
+}
+
+const DEFAULT_EPOCH = 1704067200000 // 2024-01-01 00:00:00 UTC
+const DEFAULT_WORKER_ID_BITS = 10
+const DEFAULT_SEQUENCE_BITS = 12
+
+/**
+ * 解析 SnowFlake ID
+ *
+ * Decode a SnowFlake ID
+ *
+ * @param id SnowFlake ID
+ * @param layout 生成该 ID 时使用的位布局 bit layout used when generating the ID
+ * @returns 解析出的各个部分 decoded parts
+ */
+export function decodeSnowFlake(id: bigint, layout: SnowFlakeLayout = {}): SnowFlakeParts {
+    const workerIdBits = BigInt(layout.workerIdBits ?? DEFAULT_WORKER_ID_BITS)
+    const sequenceBits = BigInt(layout.sequenceBits ?? DEFAULT_SEQUENCE_BITS)
+    return {
+        timestamp: Number(id >> (workerIdBits + sequenceBits)) + (layout.epoch ?? DEFAULT_EPOCH),
+        workerId: Number((id >> sequenceBits) & ((1n << workerIdBits) - 1n)),
+        sequence: Number(id & ((1n << sequenceBits) - 1n))
+    }
+}
+
 export class SnowFlake {
-    private epoch: number = 1704067200000 // 2024-01-01 00:00:00 UTC
-    private workerIdBits: number = 10
-    private sequenceBits: number = 12
-    private maxSequence: number = (1 << this.sequenceBits) - 1
+    private readonly epoch: number
+    private readonly workerIdBits: number
+    private readonly sequenceBits: number
+    private readonly maxSequence: number
+    private readonly clockRollback: SnowFlakeClockRollbackPolicy
+    private readonly maxRollback: number
+    private readonly clock: () => number
 
     private lastMs: number = 0
     private sequence: number = 0
 
-    constructor(readonly workerId: number) {}
+    constructor(
+        readonly workerId: number,
+        options: SnowFlakeOptions = {}
+    ) {
+        this.epoch = options.epoch ?? DEFAULT_EPOCH
+        this.workerIdBits = options.workerIdBits ?? DEFAULT_WORKER_ID_BITS
+        this.sequenceBits = options.sequenceBits ?? DEFAULT_SEQUENCE_BITS
+        this.clockRollback = options.clockRollback ?? "wait"
+        this.maxRollback = options.maxRollback ?? 5000
+        this.clock = options.clock ?? Date.now
+
+        if (!Number.isInteger(this.workerIdBits) || !Number.isInteger(this.sequenceBits) || this.workerIdBits < 0 || this.sequenceBits < 1) {
+            throw new RangeError("Bit lengths must be non-negative integers and the sequence needs at least 1 bit")
+        }
+        // ID 为 63 位的正整数，剩余的位用于时间戳
+        if (this.workerIdBits + this.sequenceBits >= 63) {
+            throw new RangeError("Worker id bits and sequence bits must leave room for the timestamp in 63 bits")
+        }
+        if (!Number.isInteger(workerId) || workerId < 0 || workerId >= 2 ** this.workerIdBits) {
+            throw new RangeError(`Worker id must be an integer between 0 and ${2 ** this.workerIdBits - 1}, got ${workerId}`)
+        }
+        this.maxSequence = 2 ** this.sequenceBits - 1
+    }
 
+    /**
+     * 同步生成下一个 ID，需要等待时钟时 (序列号耗尽或 wait 策略下的时钟回拨) 不阻塞当前线程，而是像 logical 策略一样借用上一次的时间戳继续生成
+     *
+     * Generate the next ID synchronously, when it has to wait for the clock (the sequence is exhausted or the clock moved backwards under the wait policy) it does not block the current thread but borrows from the last timestamp like the logical policy
+     */
     nextId(): bigint {
-        const now = Date.now()
-        if (now === this.lastMs) {
-            this.sequence = (this.sequence + 1) & this.maxSequence
-            if (this.sequence === 0) {
-                while (Date.now() <= this.lastMs) {}
+        return this._tryNext(this.clock(), true) as bigint
+    }
+
+    /**
+     * 异步生成下一个 ID，需要等待时钟时不会阻塞当前线程
+     *
+     * Generate the next ID asynchronously, without blocking the current thread when it has to wait for the clock
+     */
+    async nextIdAsync(): Promise<bigint> {
+        while (true) {
+            const result = this._tryNext(this.clock())
+            if (typeof result === "bigint") return result
+            await new Promise((resolve) => setTimeout(resolve, Math.max(result - this.clock(), 1)))
+        }
+    }
+
+    /**
+     * 解析由当前生成器生成的 ID
+     *
+     * Decode an ID generated by this generator
+     */
+    decode(id: bigint): SnowFlakeParts {
+        return decodeSnowFlake(id, { epoch: this.epoch, workerIdBits: this.workerIdBits, sequenceBits: this.sequenceBits })
+    }
+
+    /**
+     * 尝试生成 ID，需要等待时钟时返回需要等待到的时间戳，borrow 为 true 时改为借用逻辑时钟
+     *
+     * Try to generate an ID, returning the timestamp to wait until when it has to wait for the clock, or borrowing from the logical clock instead when borrow is true
+     */
+    private _tryNext(now: number, borrow = false): bigint | number {
+        const logical = borrow || this.clockRollback === "logical"
+        if (now < this.lastMs) {
+            const rollback = this.lastMs - now
+            if (this.clockRollback === "throw") throw new Error(`Clock moved backwards by ${rollback}ms`)
+            if (this.clockRollback === "wait") {
+                if (rollback > this.maxRollback)
+                    throw new Error(`Clock moved backwards by ${rollback}ms, exceeding the maximum of ${this.maxRollback}ms`)
+                if (!borrow) return this.lastMs
             }
-        } else {
-            this.sequence = 0
+            // 逻辑时钟继续沿用上一次的时间戳
+            now = this.lastMs
+        }
+
+        if (now > this.lastMs) {
             this.lastMs = now
+            this.sequence = 0
+        } else if (this.sequence < this.maxSequence) {
+            this.sequence++
+        } else if (logical) {
+            // 逻辑时钟在序列号耗尽时直接前进，不等待真实时钟
+            this.lastMs++
+            this.sequence = 0
+        } else {
+            return this.lastMs + 1
+        }
+
+        const elapsed = this.lastMs - this.epoch
+        if (elapsed < 0 || elapsed >= 2 ** (63 - this.workerIdBits - this.sequenceBits)) {
+            throw new RangeError(`Timestamp ${this.lastMs} is out of the range of the layout`)
         }
 
-        const timestampPart = BigInt(now - this.epoch) << BigInt(this.workerIdBits + this.sequenceBits)
+        const timestampPart = BigInt(elapsed) << BigInt(this.workerIdBits + this.sequenceBits)
         const workerPart = BigInt(this.workerId) << BigInt(this.sequenceBits)
-        const id = timestampPart | workerPart | BigInt(this.sequence)
-        return id
+        return timestampPart | workerPart | BigInt(this.sequence)
     }
 }
 
@@ -0,0 +1,258 @@
+import { appendFile, mkdir, readFile, readdir, truncate } from "node:fs/promises"
+import { join } from "node:path"
+import { parseJSON, stringifyJSON } from "./codec"
+import type { PerikanEventData } from "./event"
+import { matchTopic } from "./topic"
+
+/**
+ * 重放的事件会带有该标签，以便处理器区分实时事件与重放事件
+ *
+ * Replayed events carry this tag so that handlers can tell live events from replayed ones
+ */
+export const PERIKAN_REPLAY_TAG = "perikan:replay"
+
+/**
+ * 判断事件是否为重放的事件
+ *
+ * Determine whether the event is a replayed event
+ *
+ * @param data 事件数据 event data
+ * @returns 是否为重放的事件 whether it is a replayed event
+ */
+export function isReplayed(data: PerikanEventData<any>): boolean {
+    return data.tags.includes(PERIKAN_REPLAY_TAG)
+}
+
+/**
+ * 事件存储的查询条件，所有条件之间为且的关系
+ *
+ * Query of the event store, all conditions are combined with AND
+ */
+export type PerikanEventQuery = {
+    /**
+     * 主题或主题模式
+     *
+     * Topic or topic pattern
+     */
+    topic?: string
+    /**
+     * 起始偏移量 (包含)，即事件在存储中的序号
+     *
+     * Start offset (inclusive), i.e. the sequence number of the event in the store
+     */
+    offset?: number
+    /**
+     * 起始时间 (包含)
+     *
+     * Start time (inclusive)
+     */
+    since?: number
+    /**
+     * 结束时间 (不包含)
+     *
+     * End time (exclusive)
+     */
+    until?: number
+    /**
+     * 起始事件 id (包含)
+     *
+     * Start event id (inclusive)
+     */
+    sinceId?: bigint
+    /**
+     * 结束事件 id (不包含)
+     *
+     * End event id (exclusive)
+     */
+    untilId?: bigint
+    /**
+     * 事件必须包含的所有标签
+     *
+     * Tags the event must all carry
+     */
+    tags?: string[]
+    /**
+     * 事件的关联 ID，用于查询同一条因果链上的所有事件
+     *
+     * Correlation id of the events, used to query every event of the same causal chain
+     */
+    correlationId?: bigint
+    /**
+     * 最多返回的事件数量
+     *
+     * Maximum number of events to return
+     */
+    limit?: number
+}
+
+/**
+ * 只追加的事件存储
+ *
+ * Append-only event store
+ */
+export interface IPerikanEventStore {
+    append(data: PerikanEventData<any>): Promise<void>
+    query(query?: PerikanEventQuery): AsyncIterable<PerikanEventData<any>>
+}
+
+/**
+ * 判断事件是否满足查询条件，不包括偏移量与数量限制
+ *
+ * Determine whether the event satisfies the query, excluding the offset and the limit
+ *
+ * @param data 事件数据 event data
+ * @param query 查询条件 query
+ * @returns 是否满足 whether it satisfies
+ */
+export function matchEventQuery(data: PerikanEventData<any>, query: PerikanEventQuery): boolean {
+    if (query.topic !== undefined && !matchTopic(query.topic, data.topic)) return false
+    if (query.since !== undefined && data.time < query.since) return false
+    if (query.until !== undefined && data.time >= query.until) return false
+    if (query.sinceId !== undefined && data.id < query.sinceId) return false
+    if (query.untilId !== undefined && data.id >= query.untilId) return false
+    if (query.tags && !query.tags.every((tag) => data.tags.includes(tag))) return false
+    if (query.correlationId !== undefined && (data.correlationId ?? data.id) !== query.correlationId) return false
+    return true
+}
+
+/**
+ * 基于内存的事件存储
+ *
+ * In-memory event store
+ */
+export class PerikanMemoryEventStore implements IPerikanEventStore {
+    protected readonly events: PerikanEventData<any>[] = []
+
+    async append(data: PerikanEventData<any>): Promise<void> {
+        this.events.push(data)
+    }
+
+    async *query(query: PerikanEventQuery = {}): AsyncIterableIterator<PerikanEventData<any>> {
+        let count = 0
+        for (let offset = query.offset ?? 0; offset < this.events.length; offset++) {
+            if (query.limit !== undefined && count >= query.limit) return
+            const data = this.events[offset]!
+            if (!matchEventQuery(data, query)) continue
+            count++
+            yield data
+        }
+    }
+
+    /**
+     * 存储中的事件数量
+     *
+     * Number of events in the store
+     */
+    get size(): number {
+        return this.events.length
+    }
+}
+
+export type PerikanFileEventStoreOptions = {
+    /**
+     * 存放分段文件的目录
+     *
+     * Directory holding the segment files
+     */
+    directory: string
+    /**
+     * 每个分段文件最多包含的事件数量，默认为 10000
+     *
+     * Maximum number of events in each segment file, 10000 by default
+     */
+    segmentSize?: number
+}
+
+/**
+ * 基于文件的事件存储，事件以 JSONL 格式按顺序写入固定大小的分段文件中
+ *
+ * File-backed event store, events are written in order as JSONL into fixed-size segment files
+ */
+export class PerikanFileEventStore implements IPerikanEventStore {
+    protected readonly segmentSize: number
+
+    // 下一个事件的偏移量，首次访问时从已有的分段中恢复
+    private _next?: Promise<number>
+    // 保证追加按顺序执行
+    private _writing: Promise<unknown> = Promise.resolve()
+
+    constructor(protected readonly options: PerikanFileEventStoreOptions) {
+        this.segmentSize = options.segmentSize ?? 10000
+    }
+
+    append(data: PerikanEventData<any>): Promise<void> {
+        const task = this._writing.then(async () => {
+            try {
+                const offset = await this._nextOffset()
+                await appendFile(this._segmentPath(Math.floor(offset / this.segmentSize)), stringifyJSON(data) + "\n")
+                this._next = Promise.resolve(offset + 1)
+            } catch (err) {
+                // 写入失败时重新从文件中恢复偏移量
+                this._next = undefined
+                throw err
+            }
+        })
+        this._writing = task.catch(() => {})
+        return task
+    }
+
+    async *query(query: PerikanEventQuery = {}): AsyncIterableIterator<PerikanEventData<any>> {
+        // 等待进行中的追加完成，保证读取到之前追加的事件
+        await this._writing
+        const start = query.offset ?? 0
+        let count = 0
+
+        for (const segment of await this._segments()) {
+            // 跳过完全位于起始偏移量之前的分段
+            if ((segment + 1) * this.segmentSize <= start) continue
+            const { lines } = await this._readSegment(segment)
+            for (let i = 0; i < lines.length; i++) {
+                if (segment * this.segmentSize + i < start) continue
+                if (query.limit !== undefined && count >= query.limit) return
+                const data = parseJSON(lines[i]!) as PerikanEventData<any>
+                if (!matchEventQuery(data, query)) continue
+                count++
+                yield data
+            }
+        }
+    }
+
+    private _segmentPath(segment: number): string {
+        return join(this.options.directory, `${segment.toString().padStart(8, "0")}.jsonl`)
+    }
+
+    private async _segments(): Promise<number[]> {
+        await mkdir(this.options.directory, { recursive: true })
+        const files = await readdir(this.options.directory)
+        return files
+            .filter((file) => /^\d{8}\.jsonl$/.test(file))
+            .map((file) => Number(file.slice(0, 8)))
+            .sort((a, b) => a - b)
+    }
+
+    /**
+     * 读取分段中的完整行，写入中断时留下的不完整的最后一行会被忽略
+     *
+     * Read the complete lines of a segment, an incomplete last line left by an interrupted write is ignored
+     */
+    private async _readSegment(segment: number): Promise<{ lines: string[]; partial: boolean; end: number }> {
+        const raw = await readFile(this._segmentPath(segment))
+        // 最后一个换行符之后的内容是不完整的行
+        const end = raw.lastIndexOf(0x0a) + 1
+        const lines = raw.subarray(0, end).toString("utf8").split("\n")
+        return { lines: lines.filter((line) => line.length > 0), partial: end < raw.length, end }
+    }
+
+    private _nextOffset(): Promise<number> {
+        this._next ??= (async () => {
+            const segments = await this._segments()
+            const last = segments.at(-1)
+            if (last === undefined) return 0
+            const { lines, partial, end } = await this._readSegment(last)
+            // 截断不完整的最后一行，避免之后追加的事件与它拼接在一起
+            if (partial) await truncate(this._segmentPath(last), end)
+            return last * this.segmentSize + lines.length
+        })()
+        return this._next
+    }
+}
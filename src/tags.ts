@@ -0,0 +1,277 @@
+/**
+ * 标签选择器，可以是布尔表达式字符串，也可以是由 all、any、none 组成的对象，对象中的条件需要同时满足
+ *
+ * Tag selector, either a boolean expression string or an object made of all, any and none, the conditions of the object must all hold
+ *
+ * 表达式支持 `&&` (`and`)、`||` (`or`)、`!` (`not`) 与括号，例如 `billing && (eu || us) && !internal`
+ *
+ * Expressions support `&&` (`and`), `||` (`or`), `!` (`not`) and parentheses, for example `billing && (eu || us) && !internal`
+ */
+export type PerikanTagSelector =
+    | string
+    | {
+          /**
+           * 事件必须携带所有这些标签
+           *
+           * The event must carry all of these tags
+           */
+          all?: string[]
+          /**
+           * 事件必须携带至少一个这些标签
+           *
+           * The event must carry at least one of these tags
+           */
+          any?: string[]
+          /**
+           * 事件不能携带任何这些标签
+           *
+           * The event must carry none of these tags
+           */
+          none?: string[]
+      }
+
+/**
+ * 编译后的标签选择器
+ *
+ * Compiled tag selector
+ */
+export type PerikanTagMatcher = {
+    /**
+     * 判断标签是否满足选择器
+     *
+     * Determine whether the tags satisfy the selector
+     */
+    test(tags: Iterable<string>): boolean
+    /**
+     * 匹配的事件至少携带其中一个标签，为 undefined 时选择器可以匹配不携带任何指定标签的事件 (例如只包含否定条件)
+     *
+     * A matching event carries at least one of these tags, undefined when the selector can match events carrying none of the given tags (e.g. only negations)
+     */
+    anchors?: ReadonlySet<string>
+}
+
+type TagExpression =
+    | { type: "tag"; tag: string }
+    | { type: "not"; operand: TagExpression }
+    | { type: "and" | "or"; left: TagExpression; right: TagExpression }
+
+const TOKEN_PATTERN = /\s*(?:(&&|\|\||!|\(|\))|([^\s&|!()]+))/y
+
+const KEYWORDS: Record<string, string> = { and: "&&", or: "||", not: "!" }
+
+/**
+ * 将表达式字符串拆分为记号，关键字被转换为对应的运算符
+ *
+ * Split the expression string into tokens, keywords are converted to the corresponding operators
+ */
+function tokenize(expression: string): { operator?: string; tag?: string }[] {
+    const tokens: { operator?: string; tag?: string }[] = []
+    TOKEN_PATTERN.lastIndex = 0
+    while (TOKEN_PATTERN.lastIndex < expression.length) {
+        if (expression.slice(TOKEN_PATTERN.lastIndex).trim() === "") break
+        const start = TOKEN_PATTERN.lastIndex
+        const match = TOKEN_PATTERN.exec(expression)
+        if (!match) throw new SyntaxError(`Unexpected character at ${start} in tag selector "${expression}"`)
+        const [, operator, word] = match
+        tokens.push(operator ? { operator } : word! in KEYWORDS ? { operator: KEYWORDS[word!] } : { tag: word })
+    }
+    return tokens
+}
+
+/**
+ * 解析标签表达式，优先级从高到低为 `!`、`&&`、`||`
+ *
+ * Parse a tag expression, precedence from high to low is `!`, `&&`, `||`
+ *
+ * @param expression 表达式 expression
+ * @returns 语法树 syntax tree
+ */
+function parseTagExpression(expression: string): TagExpression {
+    const tokens = tokenize(expression)
+    let index = 0
+
+    const fail = (message: string): never => {
+        throw new SyntaxError(`${message} in tag selector "${expression}"`)
+    }
+    const accept = (operator: string) => {
+        if (tokens[index]?.operator !== operator) return false
+        index++
+        return true
+    }
+
+    const parseOr = (): TagExpression => {
+        let left = parseAnd()
+        while (accept("||")) left = { type: "or", left, right: parseAnd() }
+        return left
+    }
+    const parseAnd = (): TagExpression => {
+        let left = parseNot()
+        while (accept("&&")) left = { type: "and", left, right: parseNot() }
+        return left
+    }
+    const parseNot = (): TagExpression => {
+        if (accept("!")) return { type: "not", operand: parseNot() }
+        if (accept("(")) {
+            const inner = parseOr()
+            if (!accept(")")) fail("Missing closing parenthesis")
+            return inner
+        }
+        const token = tokens[index++]
+        if (!token?.tag) return fail(token ? `Unexpected operator "${token.operator}"` : "Unexpected end")
+        return { type: "tag", tag: token.tag }
+    }
+
+    if (tokens.length === 0) fail("Empty expression")
+    const tree = parseOr()
+    if (index < tokens.length) fail(`Unexpected token "${tokens[index]!.operator ?? tokens[index]!.tag}"`)
+    return tree
+}
+
+/**
+ * 计算表达式的锚点标签，匹配的事件至少携带其中一个
+ *
+ * Compute the anchor tags of the expression, a matching event carries at least one of them
+ */
+function expressionAnchors(expression: TagExpression): Set<string> | undefined {
+    switch (expression.type) {
+        case "tag":
+            return new Set([expression.tag])
+        case "not":
+            return undefined
+        case "and": {
+            // 任意一侧的锚点都成立，选择较小的一侧以减少候选
+            const left = expressionAnchors(expression.left)
+            const right = expressionAnchors(expression.right)
+            if (!left || !right) return left ?? right
+            return left.size <= right.size ? left : right
+        }
+        case "or": {
+            const left = expressionAnchors(expression.left)
+            const right = expressionAnchors(expression.right)
+            return left && right ? new Set([...left, ...right]) : undefined
+        }
+    }
+}
+
+function evaluate(expression: TagExpression, tags: ReadonlySet<string>): boolean {
+    switch (expression.type) {
+        case "tag":
+            return tags.has(expression.tag)
+        case "not":
+            return !evaluate(expression.operand, tags)
+        case "and":
+            return evaluate(expression.left, tags) && evaluate(expression.right, tags)
+        case "or":
+            return evaluate(expression.left, tags) || evaluate(expression.right, tags)
+    }
+}
+
+/**
+ * 编译标签选择器，表达式无效时抛出 SyntaxError
+ *
+ * Compile a tag selector, throwing a SyntaxError when the expression is invalid
+ *
+ * @param selector 标签选择器 tag selector
+ * @returns 编译后的选择器 compiled selector
+ */
+export function compileTagSelector(selector: PerikanTagSelector): PerikanTagMatcher {
+    if (typeof selector === "string") {
+        const expression = parseTagExpression(selector)
+        return { test: (tags) => evaluate(expression, new Set(tags)), anchors: expressionAnchors(expression) }
+    }
+
+    const { all = [], any = [], none = [] } = selector
+    return {
+        test: (tags) => {
+            const set = new Set(tags)
+            return all.every((tag) => set.has(tag)) && (any.length === 0 || any.some((tag) => set.has(tag))) && !none.some((tag) => set.has(tag))
+        },
+        anchors: all.length > 0 ? new Set([all[0]!]) : any.length > 0 ? new Set(any) : undefined
+    }
+}
+
+/**
+ * 判断标签是否满足选择器
+ *
+ * Determine whether the tags satisfy the selector
+ *
+ * @param selector 标签选择器 tag selector
+ * @param tags 标签 tags
+ * @returns 是否满足 whether it is satisfied
+ */
+export function matchTags(selector: PerikanTagSelector, tags: Iterable<string>): boolean {
+    return compileTagSelector(selector).test(tags)
+}
+
+/**
+ * 以锚点标签为键的索引，用于在不逐个判断选择器的情况下找到可能匹配的值
+ *
+ * An index keyed by anchor tags, used to find the values that may match without testing every selector
+ *
+ * @template T 存储的值的类型 type of the stored values
+ */
+export class PerikanTagIndex<T> {
+    private readonly anchored: Map<string, Set<T>> = new Map()
+    // 没有锚点的值总是候选
+    private readonly unanchored: Set<T> = new Set()
+
+    /**
+     * 以编译后的选择器添加值
+     *
+     * Add a value with a compiled selector
+     *
+     * @param matcher 编译后的选择器 compiled selector
+     * @param value 值 value
+     */
+    add(matcher: PerikanTagMatcher, value: T): void {
+        if (!matcher.anchors) {
+            this.unanchored.add(value)
+            return
+        }
+        for (const tag of matcher.anchors) {
+            let values = this.anchored.get(tag)
+            if (!values) {
+                values = new Set()
+                this.anchored.set(tag, values)
+            }
+            values.add(value)
+        }
+    }
+
+    /**
+     * 移除值，并清理不再使用的标签
+     *
+     * Remove a value and prune the tags no longer in use
+     *
+     * @param matcher 添加值时使用的选择器 selector used when adding the value
+     * @param value 值 value
+     */
+    delete(matcher: PerikanTagMatcher, value: T): void {
+        if (!matcher.anchors) {
+            this.unanchored.delete(value)
+            return
+        }
+        for (const tag of matcher.anchors) {
+            const values = this.anchored.get(tag)
+            if (!values) continue
+            values.delete(value)
+            if (values.size === 0) this.anchored.delete(tag)
+        }
+    }
+
+    /**
+     * 获取携带指定标签的事件可能匹配的值
+     *
+     * Get the values that an event carrying the given tags may match
+     *
+     * @param tags 事件的标签 tags of the event
+     * @returns 候选值的集合 set of candidate values
+     */
+    candidates(tags: Iterable<string>): Set<T> {
+        const result = new Set(this.unanchored)
+        for (const tag of tags) {
+            for (const value of this.anchored.get(tag) ?? []) result.add(value)
+        }
+        return result
+    }
+}
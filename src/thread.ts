@@ -0,0 +1,105 @@
+import { MessageChannel, type MessagePort } from "node:worker_threads"
+import { PerikanPeerBus, PerikanRouter, type PerikanPeerBusOptions, type PerikanRouterMessage } from "./router"
+
+/**
+ * 运行在主线程上的线程集线器，通过 MessagePort 连接各个线程上的 PerikanThreadBus 并在它们之间路由事件
+ *
+ * Thread hub running on the main thread, connecting the PerikanThreadBus of every thread via MessagePort and routing events between them
+ */
+export class PerikanThreadHub {
+    protected readonly router = new PerikanRouter()
+    protected readonly ports: Map<number, MessagePort> = new Map()
+
+    /**
+     * 连接一个线程的 MessagePort
+     *
+     * Connect the MessagePort of a thread
+     *
+     * @param workerId 线程的 worker id worker id of the thread
+     * @param port 与该线程通信的端口 port communicating with the thread
+     */
+    connect(workerId: number, port: MessagePort): void {
+        this.disconnect(workerId)
+        this.ports.set(workerId, port)
+        port.on("message", (message: PerikanRouterMessage) => this.router.receive(workerId, message))
+        port.on("close", () => {
+            if (this.ports.get(workerId) === port) this.disconnect(workerId)
+        })
+        this.router.connect(workerId, (message) => port.postMessage(message))
+    }
+
+    /**
+     * 为线程创建一个已连接的端口，返回的端口需要传递给该线程的 PerikanThreadBus
+     *
+     * Create a connected port for a thread, the returned port should be passed to the PerikanThreadBus of that thread
+     *
+     * @param workerId 线程的 worker id worker id of the thread
+     * @returns 交给线程使用的端口 port to hand to the thread
+     */
+    createPort(workerId: number): MessagePort {
+        const { port1, port2 } = new MessageChannel()
+        this.connect(workerId, port1)
+        return port2
+    }
+
+    /**
+     * 断开一个线程
+     *
+     * Disconnect a thread
+     *
+     * @param workerId 线程的 worker id worker id of the thread
+     */
+    disconnect(workerId: number): void {
+        const port = this.ports.get(workerId)
+        if (!port) return
+        this.ports.delete(workerId)
+        this.router.disconnect(workerId)
+        port.close()
+    }
+
+    /**
+     * 断开所有线程
+     *
+     * Disconnect all threads
+     */
+    close(): void {
+        for (const workerId of Array.from(this.ports.keys())) this.disconnect(workerId)
+    }
+}
+
+export type PerikanThreadBusOptions = PerikanPeerBusOptions & {
+    /**
+     * 由 PerikanThreadHub.createPort 创建的端口
+     *
+     * Port created by PerikanThreadHub.createPort
+     */
+    port: MessagePort
+}
+
+/**
+ * 跨线程的事件总线，通过 MessagePort 连接到主线程上的 PerikanThreadHub
+ *
+ * Cross-thread event bus, connected to the PerikanThreadHub on the main thread via MessagePort
+ */
+export class PerikanThreadBus extends PerikanPeerBus {
+    protected readonly port: MessagePort
+
+    constructor(protected override readonly options: PerikanThreadBusOptions) {
+        super(options)
+        this.port = options.port
+        this.port.on("message", (message: PerikanRouterMessage) => this.receive(message))
+    }
+
+    /**
+     * 关闭与集线器的连接
+     *
+     * Close the connection to the hub
+     */
+    close(): void {
+        this.port.close()
+    }
+
+    protected send(message: PerikanRouterMessage): void {
+        this.port.postMessage(message)
+    }
+}
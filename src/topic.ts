@@ -0,0 +1,180 @@
+/**
+ * 主题分段的分隔符
+ *
+ * The separator of topic segments
+ */
+export const TOPIC_SEPARATOR = "."
+
+/**
+ * 匹配单个分段的通配符
+ *
+ * The wildcard matching exactly one segment
+ */
+export const SINGLE_WILDCARD = "*"
+
+/**
+ * 匹配零个或多个分段的通配符
+ *
+ * The wildcard matching zero or more segments
+ */
+export const MULTI_WILDCARD = "#"
+
+/**
+ * 主题前缀树的节点
+ *
+ * Node of the topic trie
+ */
+interface TopicTrieNode<T> {
+    children: Map<string, TopicTrieNode<T>>
+    values: Set<T>
+}
+
+const createNode = <T>(): TopicTrieNode<T> => ({ children: new Map(), values: new Set() })
+
+/**
+ * 判断主题是否包含通配符
+ *
+ * Determine whether the topic contains wildcards
+ *
+ * @param topic 主题 topic
+ * @returns 是否为模式 whether it is a pattern
+ */
+export function isTopicPattern(topic: string): boolean {
+    return topic.split(TOPIC_SEPARATOR).some((segment) => segment === SINGLE_WILDCARD || segment === MULTI_WILDCARD)
+}
+
+/**
+ * 判断主题是否匹配给定的模式
+ *
+ * Determine whether the topic matches the given pattern
+ *
+ * @param pattern 主题模式 topic pattern
+ * @param topic 主题 topic
+ * @returns 是否匹配 whether it matches
+ */
+export function matchTopic(pattern: string, topic: string): boolean {
+    const trie = new PerikanTopicTrie<true>()
+    trie.add(pattern, true)
+    return trie.match(topic).size > 0
+}
+
+/**
+ * 以主题分段为键的前缀树，支持 `*` (单个分段) 与 `#` (零个或多个分段) 通配符
+ *
+ * A trie keyed by topic segments, supporting the `*` (exactly one segment) and `#` (zero or more segments) wildcards
+ *
+ * @template T 存储的值的类型 type of the stored values
+ */
+export class PerikanTopicTrie<T> {
+    private readonly root: TopicTrieNode<T> = createNode()
+
+    /**
+     * 向指定的主题模式添加值
+     *
+     * Add a value to the given topic pattern
+     *
+     * @param pattern 主题模式 topic pattern
+     * @param value 值 value
+     */
+    add(pattern: string, value: T): void {
+        let node = this.root
+        for (const segment of pattern.split(TOPIC_SEPARATOR)) {
+            let child = node.children.get(segment)
+            if (!child) {
+                child = createNode()
+                node.children.set(segment, child)
+            }
+            node = child
+        }
+        node.values.add(value)
+    }
+
+    /**
+     * 从指定的主题模式移除值，并清理不再使用的节点
+     *
+     * Remove a value from the given topic pattern and prune the nodes no longer in use
+     *
+     * @param pattern 主题模式 topic pattern
+     * @param value 值 value
+     * @returns 是否移除成功 whether the value was removed
+     */
+    delete(pattern: string, value: T): boolean {
+        const path: [TopicTrieNode<T>, string][] = []
+        let node = this.root
+        for (const segment of pattern.split(TOPIC_SEPARATOR)) {
+            const child = node.children.get(segment)
+            if (!child) return false
+            path.push([node, segment])
+            node = child
+        }
+        if (!node.values.delete(value)) return false
+
+        // 自底向上清理空节点
+        for (let i = path.length - 1; i >= 0; i--) {
+            const [parent, segment] = path[i]!
+            const child = parent.children.get(segment)!
+            if (child.values.size > 0 || child.children.size > 0) break
+            parent.children.delete(segment)
+        }
+        return true
+    }
+
+    /**
+     * 获取指定主题模式上注册的值，不进行通配符匹配
+     *
+     * Get the values registered on the given topic pattern, without wildcard matching
+     *
+     * @param pattern 主题模式 topic pattern
+     * @returns 值的集合 set of values
+     */
+    get(pattern: string): Set<T> {
+        let node: TopicTrieNode<T> | undefined = this.root
+        for (const segment of pattern.split(TOPIC_SEPARATOR)) {
+            node = node.children.get(segment)
+            if (!node) return new Set()
+        }
+        return new Set(node.values)
+    }
+
+    /**
+     * 获取所有模式匹配指定主题的值
+     *
+     * Get all values whose pattern matches the given topic
+     *
+     * @param topic 主题 topic
+     * @returns 值的集合 set of values
+     */
+    match(topic: string): Set<T> {
+        const result = new Set<T>()
+        this._collect(this.root, topic.split(TOPIC_SEPARATOR), 0, result)
+        return result
+    }
+
+    /**
+     * 前缀树是否为空
+     *
+     * Whether the trie is empty
+     */
+    get empty(): boolean {
+        return this.root.children.size === 0 && this.root.values.size === 0
+    }
+
+    private _collect(node: TopicTrieNode<T>, segments: string[], index: number, result: Set<T>): void {
+        // `#` 可以匹配零个或多个分段，因此在每个位置都尝试消耗剩余的任意数量分段
+        const multi = node.children.get(MULTI_WILDCARD)
+        if (multi) {
+            for (let i = index; i <= segments.length; i++) this._collect(multi, segments, i, result)
+        }
+
+        if (index === segments.length) {
+            for (const value of node.values) result.add(value)
+            return
+        }
+
+        const exact = node.children.get(segments[index]!)
+        if (exact) this._collect(exact, segments, index + 1, result)
+
+        const single = node.children.get(SINGLE_WILDCARD)
+        if (single) this._collect(single, segments, index + 1, result)
+    }
+}
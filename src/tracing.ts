@@ -0,0 +1,258 @@
+export type PerikanSpanKind = "internal" | "producer" | "consumer"
+
+export type PerikanAttributeValue = string | number | boolean
+
+export type PerikanAttributes = Record<string, PerikanAttributeValue>
+
+/**
+ * Span 的状态，状态码与 OpenTelemetry 的 SpanStatusCode 一一对应，但以字符串表示
+ *
+ * Status of a span, the codes map one-to-one to SpanStatusCode of OpenTelemetry but are represented as strings
+ */
+export type PerikanSpanStatus = {
+    code: "unset" | "ok" | "error"
+    message?: string
+}
+
+/**
+ * 可以跨进程传播的 Span 上下文
+ *
+ * Span context that can be propagated across processes
+ */
+export type PerikanSpanContext = {
+    traceId: string
+    spanId: string
+    traceFlags: number
+}
+
+export type PerikanSpanOptions = {
+    kind?: PerikanSpanKind
+    attributes?: PerikanAttributes
+    /**
+     * 父 Span 的上下文，未提供时创建新的追踪
+     *
+     * Context of the parent span, a new trace is started when not provided
+     */
+    parent?: PerikanSpanContext
+}
+
+/**
+ * Span 接口，参照 OpenTelemetry 的 Span 设计，只包含 Perikan 使用的部分
+ *
+ * Span interface, modelled after the Span of OpenTelemetry and covering only the part used by Perikan
+ */
+export interface IPerikanSpan {
+    spanContext(): PerikanSpanContext
+    setAttribute(key: string, value: PerikanAttributeValue): this
+    setStatus(status: PerikanSpanStatus): this
+    recordException(error: unknown): void
+    end(): void
+}
+
+/**
+ * 追踪器接口，参照 OpenTelemetry 的 Tracer 设计，可以通过简单的适配器接入 OpenTelemetry
+ *
+ * Tracer interface, modelled after the Tracer of OpenTelemetry, so OpenTelemetry can be plugged in through a thin adapter
+ */
+export interface IPerikanTracer {
+    startSpan(name: string, options?: PerikanSpanOptions): IPerikanSpan
+}
+
+/**
+ * 已结束的 Span
+ *
+ * Finished span
+ */
+export type PerikanFinishedSpan = {
+    name: string
+    kind: PerikanSpanKind
+    traceId: string
+    spanId: string
+    traceFlags: number
+    parentSpanId?: string
+    /**
+     * 开始时间 (毫秒时间戳)
+     *
+     * Start time (millisecond timestamp)
+     */
+    startTime: number
+    /**
+     * 持续时间 (毫秒)
+     *
+     * Duration (milliseconds)
+     */
+    duration: number
+    attributes: PerikanAttributes
+    status: PerikanSpanStatus
+    events: { name: string; time: number; attributes: PerikanAttributes }[]
+}
+
+/**
+ * Span 导出器接口
+ *
+ * Span exporter interface
+ */
+export interface IPerikanSpanExporter {
+    export(spans: PerikanFinishedSpan[]): void
+}
+
+// W3C Trace Context 的 traceparent 格式：version-traceId-spanId-flags
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+
+/**
+ * 将 Span 上下文格式化为 W3C traceparent
+ *
+ * Format a span context as a W3C traceparent
+ *
+ * @param context Span 上下文 span context
+ * @returns traceparent
+ */
+export function formatTraceparent(context: PerikanSpanContext): string {
+    return `00-${context.traceId}-${context.spanId}-${context.traceFlags.toString(16).padStart(2, "0")}`
+}
+
+/**
+ * 解析 W3C traceparent
+ *
+ * Parse a W3C traceparent
+ *
+ * @param traceparent traceparent
+ * @returns Span 上下文，无效时返回 undefined span context, or undefined if invalid
+ */
+export function parseTraceparent(traceparent: string | undefined): PerikanSpanContext | undefined {
+    const match = traceparent ? TRACEPARENT_PATTERN.exec(traceparent) : null
+    if (!match) return undefined
+    return { traceId: match[1]!, spanId: match[2]!, traceFlags: parseInt(match[3]!, 16) }
+}
+
+/**
+ * 在 Span 中运行函数，根据结果设置状态并结束 Span
+ *
+ * Run a function within a span, setting the status according to the result and ending the span
+ *
+ * @param span Span
+ * @param fn 要运行的函数 function to run
+ * @returns 函数的返回值 return value of the function
+ */
+export async function withSpan<T>(span: IPerikanSpan, fn: () => T | Promise<T>): Promise<T> {
+    try {
+        return await fn()
+    } catch (err) {
+        span.recordException(err)
+        span.setStatus({ code: "error", message: err instanceof Error ? err.message : String(err) })
+        throw err
+    } finally {
+        span.end()
+    }
+}
+
+const randomHex = (bytes: number) => Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) => byte.toString(16).padStart(2, "0")).join("")
+
+class PerikanSpan implements IPerikanSpan {
+    protected readonly context: PerikanSpanContext
+    protected readonly startTime = Date.now()
+    protected readonly start = performance.now()
+    protected readonly attributes: PerikanAttributes
+    protected readonly events: PerikanFinishedSpan["events"] = []
+    protected status: PerikanSpanStatus = { code: "unset" }
+    protected ended = false
+
+    constructor(
+        protected readonly name: string,
+        protected readonly options: PerikanSpanOptions,
+        protected readonly exporter: IPerikanSpanExporter
+    ) {
+        this.context = { traceId: options.parent?.traceId ?? randomHex(16), spanId: randomHex(8), traceFlags: options.parent?.traceFlags ?? 1 }
+        this.attributes = { ...options.attributes }
+    }
+
+    spanContext(): PerikanSpanContext {
+        return this.context
+    }
+
+    setAttribute(key: string, value: PerikanAttributeValue): this {
+        this.attributes[key] = value
+        return this
+    }
+
+    setStatus(status: PerikanSpanStatus): this {
+        this.status = status
+        return this
+    }
+
+    recordException(error: unknown): void {
+        this.events.push({
+            name: "exception",
+            time: Date.now(),
+            attributes: {
+                "exception.type": error instanceof Error ? error.name : typeof error,
+                "exception.message": error instanceof Error ? error.message : String(error)
+            }
+        })
+    }
+
+    end(): void {
+        // 重复结束的 Span 不会被再次导出
+        if (this.ended) return
+        this.ended = true
+        this.exporter.export([
+            {
+                name: this.name,
+                kind: this.options.kind ?? "internal",
+                traceId: this.context.traceId,
+                spanId: this.context.spanId,
+                traceFlags: this.context.traceFlags,
+                parentSpanId: this.options.parent?.spanId,
+                startTime: this.startTime,
+                duration: performance.now() - this.start,
+                attributes: this.attributes,
+                status: this.status,
+                events: this.events
+            }
+        ])
+    }
+}
+
+/**
+ * 内置的追踪器，在 Span 结束时将其交给导出器
+ *
+ * Built-in tracer, handing spans to the exporter when they end
+ */
+export class PerikanTracer implements IPerikanTracer {
+    constructor(protected readonly exporter: IPerikanSpanExporter) {}
+
+    startSpan(name: string, options: PerikanSpanOptions = {}): IPerikanSpan {
+        return new PerikanSpan(name, options, this.exporter)
+    }
+}
+
+/**
+ * 将 Span 保存在内存中的导出器，主要用于测试
+ *
+ * Exporter keeping spans in memory, mainly used for testing
+ */
+export class PerikanInMemorySpanExporter implements IPerikanSpanExporter {
+    protected readonly spans: PerikanFinishedSpan[] = []
+
+    export(spans: PerikanFinishedSpan[]): void {
+        this.spans.push(...spans)
+    }
+
+    /**
+     * 获取所有已结束的 Span
+     *
+     * Get all finished spans
+     */
+    getFinishedSpans(): PerikanFinishedSpan[] {
+        return [...this.spans]
+    }
+
+    /**
+     * 清空已保存的 Span
+     *
+     * Clear the saved spans
+     */
+    reset(): void {
+        this.spans.length = 0
+    }
+}
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest"
 import { PerikanLocalBus } from "../src/bus"
 import { definePerikanEvent } from "../src/event"
 import { Perikan } from "../src/index"
+import { computeRetryDelay } from "../src/retry"
 import z from "zod"
 
 describe("PerikanLocalBus", () => {
@@ -70,10 +71,45 @@ describe("PerikanLocalBus", () => {
         })
     })
 
+    describe("主题模式订阅测试", () => {
+        const PlacedEvent = definePerikanEvent("order.placed", z.object({ orderId: z.string() }))
+        const PaidEvent = definePerikanEvent("order.paid.card", z.object({ orderId: z.string() }))
+
+        it("`*` 模式应该只接收单个分段的主题", async () => {
+            const handler = vi.fn()
+            bus.onPattern("order.*", handler)
+
+            await bus.emit(PlacedEvent, PlacedEvent.create(mockPerikan, { orderId: "1" }))
+            await bus.emit(PaidEvent, PaidEvent.create(mockPerikan, { orderId: "1" }))
+
+            expect(handler).toHaveBeenCalledTimes(1)
+        })
+
+        it("`#` 模式应该接收所有子主题", async () => {
+            const handler = vi.fn()
+            bus.onPattern("order.#", handler)
+
+            await bus.emit(PlacedEvent, PlacedEvent.create(mockPerikan, { orderId: "1" }))
+            await bus.emit(PaidEvent, PaidEvent.create(mockPerikan, { orderId: "1" }))
+            await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+
+            expect(handler).toHaveBeenCalledTimes(2)
+        })
+
+        it("取消订阅后模式处理器不应再被调用", async () => {
+            const handler = vi.fn()
+            const unsubscribe = bus.onPattern("order.#", handler)
+            unsubscribe()
+
+            await bus.emit(PlacedEvent, PlacedEvent.create(mockPerikan, { orderId: "1" }))
+            expect(handler).not.toHaveBeenCalled()
+        })
+    })
+
     describe("边界条件测试", () => {
         it("如果没有处理器订阅，emit 不应报错", async () => {
             const eventData = TestEvent.create(mockPerikan, { foo: "bar" })
-            await expect(bus.emit(TestEvent, eventData)).resolves.toBeUndefined()
+            await expect(bus.emit(TestEvent, eventData)).resolves.toEqual({ topic: TestEvent.topic, accepted: true, results: [] })
         })
 
         it("如果事件数据验证失败，不应执行处理器", async () => {
@@ -101,7 +137,7 @@ describe("PerikanLocalBus", () => {
             unsubscribe()
 
             // 再次发布，确保没有副作用
-            await expect(bus.emit(TestEvent, {} as any)).resolves.toBeUndefined()
+            await expect(bus.emit(TestEvent, {} as any)).resolves.toMatchObject({ accepted: false, results: [] })
         })
     })
 
@@ -147,8 +183,10 @@ describe("PerikanLocalBus", () => {
             const slowHandler = () => new Promise<void>((r) => setTimeout(r, 50))
             timeoutBus.on(TestEvent, slowHandler)
 
-            // 虽然超时，但 emit 使用 allSettled，所以不会抛出异常到外部
-            await expect(timeoutBus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))).resolves.toBeUndefined()
+            // 虽然超时，但 emit 不会抛出异常到外部，而是在投递报告中标记超时
+            const report = await timeoutBus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+            expect(report.results).toHaveLength(1)
+            expect(report.results[0]!.status).toBe("timeout")
         })
 
         it("不设置 maxTimeout 时不应有超时限制", async () => {
@@ -162,6 +200,154 @@ describe("PerikanLocalBus", () => {
         })
     })
 
+    describe("优先级与顺序分发测试", () => {
+        it("顺序模式下应该按照优先级依次执行处理器", async () => {
+            const sequentialBus = new PerikanLocalBus({ workerId: 1, dispatch: "sequential" })
+            const order: string[] = []
+            sequentialBus.on(TestEvent, () => void order.push("low"), { priority: -1 })
+            sequentialBus.on(
+                TestEvent,
+                async () => {
+                    await new Promise((r) => setTimeout(r, 10))
+                    order.push("auth")
+                },
+                { priority: 10 }
+            )
+            sequentialBus.on(TestEvent, () => void order.push("normal"))
+
+            await sequentialBus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+            expect(order).toEqual(["auth", "normal", "low"])
+        })
+
+        it("同一优先级的处理器应该并发执行", async () => {
+            const sequentialBus = new PerikanLocalBus({ workerId: 1, dispatch: "sequential" })
+            const order: number[] = []
+            sequentialBus.on(TestEvent, async () => {
+                await new Promise((r) => setTimeout(r, 20))
+                order.push(1)
+            })
+            sequentialBus.on(TestEvent, async () => {
+                await new Promise((r) => setTimeout(r, 5))
+                order.push(2)
+            })
+
+            await sequentialBus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+            expect(order).toEqual([2, 1])
+        })
+
+        it("处理器返回 false 时应该阻止后续优先级的处理器", async () => {
+            bus.setDispatchMode(TestEvent.topic, "sequential")
+            const consumer = vi.fn(() => false)
+            const sameTier = vi.fn()
+            const later = vi.fn()
+            bus.on(TestEvent, consumer, { priority: 1 })
+            bus.on(TestEvent, sameTier, { priority: 1 })
+            bus.on(TestEvent, later)
+
+            const report = await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+
+            expect(sameTier).toHaveBeenCalled()
+            expect(later).not.toHaveBeenCalled()
+            expect(report.results.map((r) => r.status)).toEqual(["fulfilled", "fulfilled", "skipped"])
+        })
+
+        it("并发模式下返回 false 不应该影响其他处理器", async () => {
+            const later = vi.fn()
+            bus.on(TestEvent, () => false, { priority: 1 })
+            bus.on(TestEvent, later)
+
+            await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+            expect(later).toHaveBeenCalled()
+        })
+    })
+
+    describe("重试策略测试", () => {
+        it("处理器失败时应该按照策略重试直到成功", async () => {
+            let calls = 0
+            const handler = vi.fn(() => {
+                if (++calls < 3) throw new Error("Fail")
+            })
+            bus.on(TestEvent, handler, { retry: { maxAttempts: 5, delay: 1 } })
+
+            const report = await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+
+            expect(handler).toHaveBeenCalledTimes(3)
+            expect(report.results[0]).toMatchObject({ status: "fulfilled", attempts: 3 })
+        })
+
+        it("重试耗尽后应该报告失败并调用 onError", async () => {
+            const onError = vi.fn()
+            const handler = vi.fn().mockRejectedValue(new Error("Fail"))
+            bus.on(TestEvent, handler, { retry: { maxAttempts: 3, delay: 1 }, onError })
+
+            const report = await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+
+            expect(handler).toHaveBeenCalledTimes(3)
+            expect(report.results[0]).toMatchObject({ status: "rejected", attempts: 3 })
+            expect(onError).toHaveBeenCalledTimes(1)
+        })
+
+        it("不可重试的错误不应该被重试", async () => {
+            const handler = vi.fn().mockRejectedValue(new TypeError("Fatal"))
+            bus.on(TestEvent, handler, { retry: { maxAttempts: 3, delay: 1, retryable: (err) => !(err instanceof TypeError) } })
+
+            await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+            expect(handler).toHaveBeenCalledTimes(1)
+        })
+
+        it("应该正确计算退避间隔", () => {
+            expect(computeRetryDelay({ maxAttempts: 5, delay: 10 }, 3)).toBe(10)
+            expect(computeRetryDelay({ maxAttempts: 5, delay: 10, backoff: "exponential" }, 3)).toBe(40)
+            expect(computeRetryDelay({ maxAttempts: 5, delay: 10, backoff: "exponential", maxDelay: 25 }, 3)).toBe(25)
+
+            const jittered = computeRetryDelay({ maxAttempts: 5, delay: 10, jitter: true }, 1)
+            expect(jittered).toBeGreaterThanOrEqual(5)
+            expect(jittered).toBeLessThanOrEqual(10)
+        })
+    })
+
+    describe("标签选择器测试", () => {
+        it("应该只将标签满足选择器的事件交给处理器", async () => {
+            const objectHandler = vi.fn()
+            const expressionHandler = vi.fn()
+            const plainHandler = vi.fn()
+            bus.on(TestEvent, objectHandler, { tags: { all: ["billing"], none: ["internal"] } })
+            bus.on(TestEvent, expressionHandler, { tags: "eu || us" })
+            bus.on(TestEvent, plainHandler)
+
+            await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "a" }, { tags: ["billing", "eu"] }))
+            await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "b" }, { tags: ["billing", "internal"] }))
+            await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "c" }, { tags: ["us"] }))
+
+            expect(objectHandler.mock.calls.map(([data]) => data.payload.foo)).toEqual(["a"])
+            expect(expressionHandler.mock.calls.map(([data]) => data.payload.foo)).toEqual(["a", "c"])
+            expect(plainHandler).toHaveBeenCalledTimes(3)
+        })
+
+        it("被标签过滤的订阅不应该出现在投递结果中", async () => {
+            bus.on(TestEvent, vi.fn(), { tags: "billing" })
+            bus.on(TestEvent, vi.fn(), { tags: "!billing" })
+
+            const report = await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }, { tags: ["billing"] }))
+
+            expect(report.results).toHaveLength(1)
+        })
+
+        it("取消订阅后应该从标签索引中移除", async () => {
+            const handler = vi.fn()
+            const unsubscribe = bus.on(TestEvent, handler, { tags: "billing" })
+            unsubscribe()
+
+            await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }, { tags: ["billing"] }))
+
+            expect(handler).not.toHaveBeenCalled()
+        })
+
+        it("无效的标签表达式应该在订阅时抛出", () => {
+            expect(() => bus.on(TestEvent, vi.fn(), { tags: "billing &&" })).toThrow(SyntaxError)
+        })
+    })
+
     describe("Worker ID 相关测试", () => {
         it("当 to 字段为空数组时，应视为广播并执行处理器", async () => {
             const handler = vi.fn()
@@ -204,8 +390,37 @@ describe("PerikanLocalBus", () => {
             bus.on(TestEvent, buggyHandler)
             bus.on(TestEvent, normalHandler)
 
-            await expect(bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))).resolves.toBeUndefined()
+            const report = await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+            expect(report.results.map((r) => r.status).sort()).toEqual(["fulfilled", "rejected"])
             expect(normalHandler).toHaveBeenCalled()
         })
+
+        it("投递报告应该包含每个处理器的状态、时长与错误", async () => {
+            const error = new Error("Fail")
+            bus.on(TestEvent, vi.fn().mockRejectedValue(error))
+            bus.on(TestEvent, vi.fn())
+
+            const report = await bus.emit(TestEvent, TestEvent.create(mockPerikan, { foo: "bar" }))
+
+            expect(report.accepted).toBe(true)
+            expect(report.results[0]).toMatchObject({ status: "rejected", error })
+            expect(report.results[1]).toMatchObject({ status: "fulfilled" })
+            expect(report.results.every((r) => r.duration >= 0)).toBe(true)
+        })
+
+        it("处理器失败或超时时应该调用订阅的 onError", async () => {
+            const timeoutBus = new PerikanLocalBus({ workerId: 1, maxTimeout: 10 })
+            const onError = vi.fn()
+            timeoutBus.on(TestEvent, () => Promise.reject(new Error("Fail")), { onError })
+            timeoutBus.on(TestEvent, () => new Promise<void>((r) => setTimeout(r, 50)), { onError })
+            timeoutBus.on(TestEvent, vi.fn(), { onError })
+
+            const eventData = TestEvent.create(mockPerikan, { foo: "bar" })
+            await timeoutBus.emit(TestEvent, eventData)
+
+            expect(onError).toHaveBeenCalledTimes(2)
+            expect(onError).toHaveBeenCalledWith(eventData, expect.objectContaining({ message: "Fail" }), expect.objectContaining({ attempts: 1 }))
+            expect(onError).toHaveBeenCalledWith(eventData, expect.objectContaining({ message: "Timeout" }), expect.objectContaining({ attempts: 1 }))
+        })
     })
 })
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest"
+import { definePerikanEvent } from "../src/event"
+import { defineRequest } from "../src/request"
+import { PerikanEventCatalog, catalogToAsyncAPI, catalogToJSONSchema, eventToJSONSchema } from "../src/catalog"
+import z from "zod"
+
+describe("事件目录", () => {
+    const OrderPlaced = definePerikanEvent("test.catalog.order.placed", z.object({ orderId: z.bigint(), amount: z.number().describe("金额") }), {
+        defaultTags: ["order"],
+        version: 2,
+        migrations: [{ version: 1, schema: z.object({ orderId: z.bigint() }), up: (payload) => ({ ...payload, amount: 0 }) }]
+    })
+
+    it("definePerikanEvent 与 defineRequest 定义的事件应该被注册到目录中", () => {
+        const Ping = defineRequest("test.catalog.ping", z.object({}), z.object({ pong: z.boolean() }))
+
+        expect(PerikanEventCatalog.get(OrderPlaced.topic)).toBe(OrderPlaced)
+        expect(PerikanEventCatalog.get(Ping.request.topic)).toBe(Ping.request)
+        expect(PerikanEventCatalog.get(Ping.reply.topic)).toBe(Ping.reply)
+    })
+
+    it("应该导出负载数据与事件数据的 JSON Schema，bigint 按照 JSON 编解码器的格式表示", () => {
+        const schema = eventToJSONSchema(OrderPlaced)
+
+        expect(schema).toMatchObject({ topic: OrderPlaced.topic, version: 2, tags: ["order"] })
+        expect(schema.payload).toMatchObject({
+            type: "object",
+            properties: { orderId: { type: "object", required: ["$bigint"] }, amount: { type: "number", description: "金额" } },
+            required: ["orderId", "amount"]
+        })
+        expect(schema.event.properties).toMatchObject({ id: { required: ["$bigint"] }, topic: { const: OrderPlaced.topic }, version: { const: 2 } })
+        expect(schema.migrations).toEqual([{ version: 1, payload: expect.objectContaining({ required: ["orderId"] }) }])
+    })
+
+    it("应该按照主题排序导出事件", () => {
+        const B = definePerikanEvent("test.catalog.b", z.object({}))
+        const A = definePerikanEvent("test.catalog.a", z.object({}))
+
+        expect(catalogToJSONSchema([B, A]).map((schema) => schema.topic)).toEqual([A.topic, B.topic])
+    })
+
+    it("应该组装包含所有版本消息的 AsyncAPI 文档", () => {
+        const doc = catalogToAsyncAPI({ title: "Orders", version: "1.0.0" }, [OrderPlaced])
+
+        expect(doc).toMatchObject({ asyncapi: "3.0.0", info: { title: "Orders", version: "1.0.0" } })
+        expect(doc.channels).toEqual({
+            [OrderPlaced.topic]: {
+                address: OrderPlaced.topic,
+                messages: {
+                    [`${OrderPlaced.topic}.v2`]: { $ref: `#/components/messages/${OrderPlaced.topic}.v2` },
+                    [`${OrderPlaced.topic}.v1`]: { $ref: `#/components/messages/${OrderPlaced.topic}.v1` }
+                }
+            }
+        })
+        expect(doc.components.messages[`${OrderPlaced.topic}.v2`]).toMatchObject({
+            name: OrderPlaced.topic,
+            tags: [{ name: "order" }],
+            "x-perikan-version": 2
+        })
+
+        const v1 = doc.components.schemas[`${OrderPlaced.topic}.v1`]!
+        expect(v1.properties!.version).toEqual({ type: "number", const: 1 })
+        expect(v1.required).not.toContain("version")
+        expect(v1.properties!.payload).toMatchObject({ required: ["orderId"] })
+    })
+})
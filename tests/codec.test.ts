@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest"
+import { Perikan } from "../src/index"
+import { definePerikanEvent } from "../src/event"
+import { PerikanJSONCodec, PerikanMessagePackCodec, decodeEvent, type PerikanCodec } from "../src/codec"
+import { PerikanEventRegistry } from "../src/registry"
+import z from "zod"
+
+describe("PerikanCodec", () => {
+    const perikan = new Perikan({ workerId: 1 })
+    const TestEvent = definePerikanEvent(
+        "test.codec",
+        z.object({
+            text: z.string(),
+            count: z.number(),
+            ratio: z.number(),
+            big: z.bigint(),
+            nested: z.object({ list: z.array(z.number()), flag: z.boolean(), nothing: z.null() }),
+            optional: z.string().optional()
+        })
+    )
+    const OtherEvent = definePerikanEvent("test.codec.other", z.object({ bar: z.number() }))
+    const registry = new PerikanEventRegistry([TestEvent, OtherEvent])
+
+    const codecs: PerikanCodec<any>[] = [new PerikanJSONCodec(), new PerikanMessagePackCodec()]
+
+    describe.each(codecs)("$name", (codec) => {
+        it("应该无损地往返编解码事件数据", () => {
+            const eventData = TestEvent.create(perikan, {
+                text: "你好, perikan ".repeat(10),
+                count: -1234567,
+                ratio: 0.125,
+                big: 2n ** 63n - 1n,
+                nested: { list: [0, 127, 128, 65536, 2 ** 40, -33], flag: true, nothing: null }
+            })
+
+            expect(decodeEvent(codec, codec.encode(eventData), TestEvent)).toEqual(eventData)
+        })
+
+        it("应该通过注册表根据主题查找事件", () => {
+            const eventData = OtherEvent.create(perikan, { bar: 1 })
+            const decoded = decodeEvent(codec, codec.encode(eventData), registry)
+
+            expect(decoded).toEqual(eventData)
+            expect(typeof decoded.id).toBe("bigint")
+        })
+
+        it("解码后的数据无效时应该抛出错误", () => {
+            const eventData = { ...OtherEvent.create(perikan, { bar: 1 }), payload: { bar: "x" } } as any
+            expect(() => decodeEvent(codec, codec.encode(eventData), registry)).toThrow()
+        })
+
+        it("主题未注册时应该抛出错误", () => {
+            const eventData = { ...OtherEvent.create(perikan, { bar: 1 }), topic: "test.unknown" } as any
+            expect(() => decodeEvent(codec, codec.encode(eventData), registry)).toThrow("Unknown event topic")
+        })
+    })
+
+    it("MessagePack 解码时 __proto__ 键不应该修改对象的原型", () => {
+        const codec = new PerikanMessagePackCodec()
+        const decoded = codec.decode(codec.encode(JSON.parse('{"__proto__": {"polluted": true}}'))) as Record<string, unknown>
+
+        expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype)
+        expect(decoded.polluted).toBeUndefined()
+        expect(Object.keys(decoded)).toEqual(["__proto__"])
+    })
+
+    it("MessagePack 编码应该比 JSON 更紧凑", () => {
+        const eventData = OtherEvent.create(perikan, { bar: 1 })
+        const json = new PerikanJSONCodec().encode(eventData)
+        const msgpack = new PerikanMessagePackCodec().encode(eventData)
+
+        expect(msgpack.byteLength).toBeLessThan(json.length)
+    })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest"
+import { definePerikanEvent } from "../src/event"
+import { catalogToAsyncAPI, catalogToJSONSchema, toJSONSchema } from "../src/catalog"
+import { generatePerikanModule, jsonSchemaToZod, readEventDefinitions } from "../src/codegen"
+import z from "zod"
+
+// 执行生成的 zod 代码
+const evaluate = (code: string): z.ZodType => new Function("z", `return ${code}`)(z)
+
+describe("代码生成", () => {
+    const OrderPlaced = definePerikanEvent(
+        "test.codegen.order.placed",
+        z.object({
+            orderId: z.bigint(),
+            status: z.enum(["pending", "paid"]),
+            items: z.array(z.object({ sku: z.string().min(1), quantity: z.int().gte(1) })),
+            note: z.string().nullable().optional()
+        }),
+        { defaultTags: ["order"], version: 2, migrations: [{ version: 1, schema: z.object({ orderId: z.bigint() }), up: (payload) => payload }] }
+    )
+
+    it("生成的 zod 模式应该与原始模式接受相同的数据", () => {
+        const schema = evaluate(jsonSchemaToZod(toJSONSchema(OrderPlaced.payloadSchema)))
+
+        const valid = { orderId: 1n, status: "paid", items: [{ sku: "a", quantity: 2 }], note: null }
+        expect(schema.parse(valid)).toEqual(valid)
+        expect(schema.safeParse({ ...valid, status: "unknown" }).success).toBe(false)
+        expect(schema.safeParse({ ...valid, items: [{ sku: "", quantity: 2 }] }).success).toBe(false)
+        expect(schema.safeParse({ ...valid, note: undefined }).success).toBe(true)
+    })
+
+    it("应该支持 $ref、组合与描述", () => {
+        const code = jsonSchemaToZod({
+            type: "object",
+            properties: {
+                id: { $ref: "#/$defs/id" },
+                value: { anyOf: [{ type: "string" }, { type: "number" }], description: "值" },
+                meta: { type: "object", additionalProperties: { type: "boolean" } }
+            },
+            required: ["id", "value"],
+            $defs: { id: { type: "string", format: "uuid" } }
+        })
+
+        expect(code).toContain('z.union([z.string(), z.number()]).describe("值")')
+        const schema = evaluate(code)
+        expect(schema.safeParse({ id: "7d444840-9dc0-11d1-b245-5ffdce74fad2", value: 1, meta: { a: true } }).success).toBe(true)
+        expect(schema.safeParse({ id: "not-a-uuid", value: 1 }).success).toBe(false)
+    })
+
+    it("应该从目录导出结果生成 definePerikanEvent 模块", () => {
+        const source = generatePerikanModule(catalogToJSONSchema([OrderPlaced]), { importFrom: "../src/event" })
+
+        expect(source).toContain('import { definePerikanEvent, type InferPayload } from "../src/event"')
+        expect(source).toContain(
+            'export const TestCodegenOrderPlaced = definePerikanEvent(\n    "test.codegen.order.placed",\n    z.object({\n        orderId: z.bigint(),'
+        )
+        expect(source).toContain('{ defaultTags: ["order"], version: 2 }')
+        expect(source).toContain("export type TestCodegenOrderPlacedPayload = InferPayload<typeof TestCodegenOrderPlaced>")
+    })
+
+    it("应该从 AsyncAPI 3.0 文档中读取最新版本的事件", () => {
+        const [event] = readEventDefinitions(catalogToAsyncAPI({ title: "Orders", version: "1.0.0" }, [OrderPlaced]))
+
+        expect(event).toMatchObject({ topic: OrderPlaced.topic, version: 2, tags: ["order"] })
+        expect(event!.payload).toEqual(toJSONSchema(OrderPlaced.payloadSchema))
+    })
+
+    it("应该从 AsyncAPI 2.x 文档中读取事件", () => {
+        const events = readEventDefinitions({
+            asyncapi: "2.6.0",
+            channels: {
+                "user.signed-up": { subscribe: { message: { $ref: "#/components/messages/UserSignedUp" } } }
+            },
+            components: {
+                messages: {
+                    UserSignedUp: {
+                        tags: [{ name: "user" }],
+                        payload: { type: "object", properties: { email: { type: "string", format: "email" } } }
+                    }
+                }
+            }
+        })
+
+        expect(events).toEqual([
+            { topic: "user.signed-up", version: undefined, tags: ["user"], payload: expect.objectContaining({ type: "object" }) }
+        ])
+        expect(generatePerikanModule({ asyncapi: "2.6.0", channels: {} })).not.toContain("definePerikanEvent(")
+    })
+
+    it("单个 JSON Schema 需要能够确定主题", () => {
+        const schema = { type: "object", properties: { ok: { type: "boolean" } } }
+
+        expect(() => readEventDefinitions(schema)).toThrow("Cannot determine the topic")
+        expect(readEventDefinitions(schema, { topic: "health.checked" })[0]!.topic).toBe("health.checked")
+        expect(readEventDefinitions({ ...schema, "x-perikan-topic": "health.checked", "x-perikan-version": 3 })[0]).toMatchObject({ version: 3 })
+    })
+})
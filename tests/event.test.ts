@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from "vitest"
+import { Perikan } from "../src/index"
+import { definePerikanEvent } from "../src/event"
+import z from "zod"
+
+describe("PerikanEvent 版本", () => {
+    const perikan = new Perikan({ workerId: 1 })
+
+    // v1: { name }，v2: { firstName, lastName }，v3: { firstName, lastName, age }
+    const UserCreated = definePerikanEvent("test.user.created", z.object({ firstName: z.string(), lastName: z.string(), age: z.number() }), {
+        version: 3,
+        migrations: [
+            {
+                version: 1,
+                schema: z.object({ name: z.string() }),
+                up: ({ name }: { name: string }) => {
+                    const [firstName = "", lastName = ""] = name.split(" ")
+                    return { firstName, lastName }
+                }
+            },
+            {
+                version: 2,
+                schema: z.object({ firstName: z.string(), lastName: z.string() }),
+                up: (payload: { firstName: string; lastName: string }) => ({ ...payload, age: 0 })
+            }
+        ]
+    })
+
+    const legacy = (version: number | undefined, payload: object) => ({
+        ...UserCreated.unsafeCreate(perikan, payload as any),
+        version,
+        payload
+    })
+
+    it("创建的事件数据应该携带当前版本", () => {
+        const data = UserCreated.create(perikan, { firstName: "Ada", lastName: "Lovelace", age: 36 })
+        expect(data.version).toBe(3)
+        expect(UserCreated.parse(data)).toEqual(data)
+    })
+
+    it("应该依次将旧版本的负载数据升级到当前版本", () => {
+        expect(UserCreated.parse(legacy(1, { name: "Ada Lovelace" }))).toMatchObject({
+            version: 3,
+            payload: { firstName: "Ada", lastName: "Lovelace", age: 0 }
+        })
+        expect(UserCreated.parse(legacy(2, { firstName: "Ada", lastName: "Lovelace" })).payload).toEqual({
+            firstName: "Ada",
+            lastName: "Lovelace",
+            age: 0
+        })
+    })
+
+    it("未携带版本的事件数据应该视为版本 1", async () => {
+        const result = await UserCreated.safeParseAsync(legacy(undefined, { name: "Ada Lovelace" }))
+        expect(result.success).toBe(true)
+        expect(result.data.payload.firstName).toBe("Ada")
+    })
+
+    it("旧版本负载数据无效或版本未知时应该解析失败", () => {
+        const invalid = UserCreated.safeParse(legacy(1, { name: 42 }))
+        expect(invalid.success).toBe(false)
+        expect(invalid.error.issues[0].path).toEqual(["payload", "name"])
+
+        expect(UserCreated.validate(legacy(4, { firstName: "Ada", lastName: "Lovelace", age: 36 }))).toBe(false)
+    })
+
+    it("应该拒绝无效的迁移版本", () => {
+        const schema = z.object({})
+        expect(() => definePerikanEvent("test.invalid", schema, { version: 0 })).toThrow(RangeError)
+        expect(() => definePerikanEvent("test.invalid", schema, { version: 2, migrations: [{ version: 2, schema, up: (p) => p }] })).toThrow(
+            RangeError
+        )
+        // 迁移链中间缺少版本 2
+        const gapped = [1, 3].map((version) => ({ version, schema, up: (p: object) => p }))
+        expect(() => definePerikanEvent("test.invalid", schema, { version: 4, migrations: gapped })).toThrow("contiguous chain")
+        // 迁移链没有到达当前版本的上一个版本
+        expect(() => definePerikanEvent("test.invalid", schema, { version: 3, migrations: [{ version: 1, schema, up: (p) => p }] })).toThrow(
+            RangeError
+        )
+    })
+
+    it("总线应该向处理器投递升级后的事件数据", async () => {
+        const handler = vi.fn()
+        perikan.on(UserCreated, handler)
+
+        await perikan.publish(legacy(1, { name: "Ada Lovelace" }) as any)
+
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({ version: 3, payload: { firstName: "Ada", lastName: "Lovelace", age: 0 } }))
+    })
+})
@@ -1,7 +1,8 @@
-import { describe, it, expect, vi } from "vitest"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
 import { Perikan } from "../src/index"
 import { definePerikanEvent } from "../src/event"
-import { PerikanFlow } from "../src/matcher"
+import { PerikanFlow, createFlow } from "../src/matcher"
+import { defineRequest } from "../src/request"
 import z from "zod"
 
 describe("PerikanFlow", () => {
@@ -58,10 +59,556 @@ describe("PerikanFlow", () => {
 
         flow.commit()
 
-        const eventData = TestEvent.create(perikan, { value: 42 })
-        // @ts-ignore - bus is protected
-        await perikan.bus.emit(TestEvent, eventData)
+        await perikan.emit(TestEvent, { value: 42 })
 
         expect(spy).toHaveBeenCalledWith(42)
     })
+
+    it("respond 应该让处理流作为请求的响应方", async () => {
+        const Double = defineRequest("test.flow.double", z.object({ value: z.number() }), z.object({ result: z.number() }))
+        new PerikanFlow(perikan, Double.request)
+            .pipe((ctx) => ({ doubled: ctx.payload.value * 2 }))
+            .respond(Double, (ctx) => ({ result: ctx.doubled }))
+            .commit()
+
+        await expect(perikan.request(Double, { value: 21 })).resolves.toEqual({ result: 42 })
+    })
+
+    describe("分支", () => {
+        const Placed = definePerikanEvent("test.flow.order.placed", z.object({ orderId: z.string(), amount: z.number() }))
+        const Cancelled = definePerikanEvent("test.flow.order.cancelled", z.object({ orderId: z.string(), reason: z.string() }))
+        const Shape = definePerikanEvent(
+            "test.flow.shape",
+            z.discriminatedUnion("kind", [
+                z.object({ kind: z.literal("circle"), radius: z.number() }),
+                z.object({ kind: z.literal("square"), size: z.number() })
+            ])
+        )
+
+        it("match 应该根据主题选择分支并收窄负载类型", async () => {
+            const spy = vi.fn()
+            const handler = createFlow(perikan, Placed, Cancelled)
+                .match((m) =>
+                    m
+                        .when(Placed, (f) => f.handle((ctx) => spy("placed", ctx.payload.amount)))
+                        .when(Cancelled, (f) => f.handle((ctx) => spy("cancelled", ctx.payload.reason)))
+                )
+                .build()
+
+            await handler(Placed.create(perikan, { orderId: "1", amount: 10 }))
+            await handler(Cancelled.create(perikan, { orderId: "1", reason: "oops" }))
+
+            expect(spy.mock.calls).toEqual([
+                ["placed", 10],
+                ["cancelled", "oops"]
+            ])
+        })
+
+        it("match 应该支持断言与 otherwise 分支", async () => {
+            const spy = vi.fn()
+            const handler = new PerikanFlow(perikan, TestEvent)
+                .match((m) =>
+                    m
+                        .when(
+                            (ctx) => ctx.payload.value > 10,
+                            (f) => f.handle(() => spy("large"))
+                        )
+                        .otherwise((f) => f.handle(() => spy("small")))
+                )
+                .build()
+
+            await handler(TestEvent.create(perikan, { value: 42 }))
+            await handler(TestEvent.create(perikan, { value: 1 }))
+
+            expect(spy.mock.calls).toEqual([["large"], ["small"]])
+        })
+
+        it("switch 应该根据判别属性选择分支并收窄负载类型", async () => {
+            const areas: number[] = []
+            const handler = new PerikanFlow(perikan, Shape)
+                .switch("kind", {
+                    circle: (f) => f.handle((ctx) => void areas.push(Math.PI * ctx.payload.radius ** 2)),
+                    square: (f) => f.handle((ctx) => void areas.push(ctx.payload.size ** 2))
+                })
+                .build()
+
+            await handler(Shape.create(perikan, { kind: "square", size: 3 }))
+            await handler(Shape.create(perikan, { kind: "circle", radius: 1 }))
+
+            expect(areas).toEqual([9, Math.PI])
+        })
+
+        it("只有设置 rejoin 时分支执行完成后才回到主处理流", async () => {
+            const spy = vi.fn()
+            const build = (rejoin: boolean) =>
+                new PerikanFlow(perikan, Shape)
+                    .switch("kind", { circle: (f) => f.pipe(() => ({ label: "round" })) }, { rejoin })
+                    .handle((ctx) => spy(ctx.payload.kind, (ctx as any).label))
+                    .build()
+
+            await build(false)(Shape.create(perikan, { kind: "circle", radius: 1 }))
+            expect(spy).not.toHaveBeenCalled()
+
+            await build(true)(Shape.create(perikan, { kind: "circle", radius: 1 }))
+            await build(true)(Shape.create(perikan, { kind: "square", size: 1 }))
+            expect(spy.mock.calls).toEqual([
+                ["circle", "round"],
+                ["square", undefined]
+            ])
+        })
+
+        it("分支中的错误应该交给主处理流的 catch", async () => {
+            const catchSpy = vi.fn()
+            const handler = new PerikanFlow(perikan, TestEvent)
+                .match((m) =>
+                    m.otherwise((f) =>
+                        f.handle(() => {
+                            throw new Error("branch error")
+                        })
+                    )
+                )
+                .catch((ctx, err) => catchSpy(err.message))
+                .build()
+
+            await handler(TestEvent.create(perikan, { value: 1 }))
+            expect(catchSpy).toHaveBeenCalledWith("branch error")
+        })
+    })
+
+    describe("where", () => {
+        const Reading = definePerikanEvent("test.flow.reading", z.object({ sensor: z.string(), value: z.number().nullable() }))
+
+        it("应该通过 zod 模式验证负载并收窄类型", async () => {
+            const spy = vi.fn()
+            const handler = new PerikanFlow(perikan, Reading)
+                .where(z.object({ value: z.number().min(0) }))
+                .handle((ctx) => spy(ctx.payload.value.toFixed(1)))
+                .build()
+
+            await handler(Reading.create(perikan, { sensor: "a", value: 1 }))
+            await handler(Reading.create(perikan, { sensor: "a", value: null }))
+            await handler(Reading.create(perikan, { sensor: "a", value: -1 }))
+
+            expect(spy.mock.calls).toEqual([["1.0"]])
+        })
+
+        it("负载类型应该收窄为模式的输入类型，模式中的转换不会改变负载", async () => {
+            const spy = vi.fn()
+            const Labelled = definePerikanEvent("test.flow.labelled", z.object({ label: z.unknown() }))
+            const handler = new PerikanFlow(perikan, Labelled)
+                .where(z.object({ label: z.string().transform((label) => label.length) }))
+                .handle((ctx) => spy(ctx.payload.label.toUpperCase()))
+                .build()
+
+            await handler(Labelled.create(perikan, { label: "abc" }))
+
+            expect(spy).toHaveBeenCalledWith("ABC")
+        })
+
+        it("应该通过类型守卫收窄负载与之前添加的属性", async () => {
+            const spy = vi.fn()
+            const handler = new PerikanFlow(perikan, Reading)
+                .where((payload): payload is { sensor: string; value: number } => payload.value !== null)
+                .pipe((ctx) => ({ unit: ctx.payload.sensor === "t" ? ("celsius" as string | undefined) : undefined }))
+                .where("unit", (unit): unit is string => unit !== undefined)
+                .handle((ctx) => spy(`${ctx.payload.value} ${ctx.unit.toUpperCase()}`))
+                .build()
+
+            await handler(Reading.create(perikan, { sensor: "t", value: 20 }))
+            await handler(Reading.create(perikan, { sensor: "h", value: 40 }))
+            await handler(Reading.create(perikan, { sensor: "t", value: null }))
+
+            expect(spy.mock.calls).toEqual([["20 CELSIUS"]])
+        })
+
+        it("应该通过 zod 模式验证之前添加的属性", async () => {
+            const spy = vi.fn()
+            const handler = new PerikanFlow(perikan, TestEvent)
+                .pipe((ctx) => ({ meta: { retries: ctx.payload.value } as unknown }))
+                .where("meta", z.object({ retries: z.number().max(3) }))
+                .handle((ctx) => spy(ctx.meta.retries))
+                .build()
+
+            await handler(TestEvent.create(perikan, { value: 2 }))
+            await handler(TestEvent.create(perikan, { value: 5 }))
+
+            expect(spy.mock.calls).toEqual([[2]])
+        })
+
+        it("不满足条件的上下文应该进入 otherwise 子处理流", async () => {
+            const rejected = vi.fn()
+            const handled = vi.fn()
+            const handler = new PerikanFlow(perikan, Reading)
+                .where(z.object({ value: z.number() }), { otherwise: (f) => f.handle((ctx) => rejected(ctx.payload.sensor)) })
+                .handle(handled)
+                .build()
+
+            await handler(Reading.create(perikan, { sensor: "broken", value: null }))
+
+            expect(rejected).toHaveBeenCalledWith("broken")
+            expect(handled).not.toHaveBeenCalled()
+        })
+    })
+
+    describe("步骤选项", () => {
+        it("步骤超时时应该中止 signal 并报告失败的步骤", async () => {
+            const catchSpy = vi.fn()
+            let aborted: unknown
+            const handler = new PerikanFlow(perikan, TestEvent)
+                .pipe(() => ({ loaded: true }), { name: "load" })
+                .pipe(
+                    (ctx, signal) =>
+                        new Promise<void>((resolve) => {
+                            signal.addEventListener("abort", () => {
+                                aborted = signal.reason
+                                resolve()
+                            })
+                        }),
+                    { name: "slow", timeout: 10 }
+                )
+                .catch((ctx, err, info) => catchSpy(err.message, info))
+                .build()
+
+            await handler(TestEvent.create(perikan, { value: 1 }))
+
+            expect(catchSpy).toHaveBeenCalledWith("Flow step slow timed out after 10ms", { name: "slow", index: 1, attempts: 1 })
+            expect(aborted).toBeInstanceOf(Error)
+        })
+
+        it("步骤失败时应该按照重试策略重试", async () => {
+            let calls = 0
+            const spy = vi.fn()
+            const handler = new PerikanFlow(perikan, TestEvent)
+                .pipe(
+                    () => {
+                        if (++calls < 3) throw new Error("flaky")
+                        return { calls }
+                    },
+                    { retry: { maxAttempts: 3, delay: 1 } }
+                )
+                .handle((ctx) => spy(ctx.calls))
+                .build()
+
+            await handler(TestEvent.create(perikan, { value: 1 }))
+            expect(spy).toHaveBeenCalledWith(3)
+        })
+
+        it("catch 应该报告分支中最内层失败的步骤", async () => {
+            const catchSpy = vi.fn()
+            const handler = new PerikanFlow(perikan, TestEvent)
+                .match((m) =>
+                    m.otherwise((f) =>
+                        f
+                            .pipe(() => ({}))
+                            .handle(
+                                () => {
+                                    throw new Error("inner")
+                                },
+                                { name: "save", retry: { maxAttempts: 2, delay: 1 } }
+                            )
+                    )
+                )
+                .catch((ctx, err, info) => catchSpy(info))
+                .build()
+
+            await handler(TestEvent.create(perikan, { value: 1 }))
+            expect(catchSpy).toHaveBeenCalledWith({ name: "save", index: 1, attempts: 2 })
+        })
+
+        it("finally 应该在处理流完成、中止或失败后运行", async () => {
+            const finallySpy = vi.fn()
+            const handler = new PerikanFlow(perikan, TestEvent)
+                .pipe((ctx) => ({ doubled: ctx.payload.value * 2 }))
+                .filter((ctx) => ctx.payload.value !== 0)
+                .handle((ctx) => {
+                    if (ctx.payload.value < 0) throw new Error("negative")
+                })
+                .finally((ctx) => finallySpy(ctx.doubled))
+                .build()
+
+            await handler(TestEvent.create(perikan, { value: 1 }))
+            await handler(TestEvent.create(perikan, { value: 0 }))
+            await expect(handler(TestEvent.create(perikan, { value: -1 }))).rejects.toThrow("negative")
+
+            expect(finallySpy.mock.calls).toEqual([[2], [0], [-2]])
+        })
+
+        it("finally 应该在顶层处理流结束时对每个上下文只运行一次", async () => {
+            const calls: string[] = []
+            const handler = new PerikanFlow(perikan, TestEvent)
+                .match((m) =>
+                    m.otherwise((f) =>
+                        f
+                            .handle(() => {
+                                throw new Error("inner")
+                            })
+                            .finally(() => void calls.push("inner finally"))
+                    )
+                )
+                .catch(() => void calls.push("catch"))
+                .finally(() => void calls.push("outer finally"))
+                .build()
+
+            await handler(TestEvent.create(perikan, { value: 1 }))
+
+            expect(calls).toEqual(["catch", "inner finally", "outer finally"])
+        })
+
+        it("不同的上下文抛出同一个错误对象时 catch 应该报告各自失败的步骤", async () => {
+            const shared = new Error("shared")
+            const catchSpy = vi.fn()
+            const handler = new PerikanFlow(perikan, TestEvent)
+                .handle(
+                    (ctx) => {
+                        if (ctx.payload.value === 1) throw shared
+                    },
+                    { name: "first" }
+                )
+                .handle(
+                    () => {
+                        throw shared
+                    },
+                    { name: "second" }
+                )
+                .catch((ctx, err, info) => catchSpy(info.name))
+                .build()
+
+            await handler(TestEvent.create(perikan, { value: 1 }))
+            await handler(TestEvent.create(perikan, { value: 2 }))
+
+            expect(catchSpy.mock.calls).toEqual([["first"], ["second"]])
+        })
+    })
+
+    describe("时间相关步骤", () => {
+        const Reading = definePerikanEvent("test.flow.reading", z.object({ sensor: z.string(), value: z.number() }))
+        const read = (sensor: string, value: number) => Reading.create(perikan, { sensor, value })
+
+        beforeEach(() => {
+            vi.useFakeTimers()
+        })
+
+        afterEach(() => {
+            vi.useRealTimers()
+        })
+
+        it("debounce 应该在静默后只让每个分组的最后一个上下文继续执行", async () => {
+            const spy = vi.fn()
+            const finallySpy = vi.fn()
+            const handler = new PerikanFlow(perikan, Reading)
+                .debounce(100, (ctx) => ctx.payload.sensor)
+                .handle((ctx) => spy(ctx.payload.sensor, ctx.payload.value))
+                .finally((ctx) => finallySpy(ctx.payload.value))
+                .build()
+
+            await handler(read("a", 1))
+            await vi.advanceTimersByTimeAsync(50)
+            await handler(read("a", 2))
+            await handler(read("b", 1))
+            await vi.advanceTimersByTimeAsync(99)
+            expect(spy).not.toHaveBeenCalled()
+
+            await vi.advanceTimersByTimeAsync(1)
+            expect(spy.mock.calls).toEqual([
+                ["a", 2],
+                ["b", 1]
+            ])
+            // 被取代的上下文在新的上下文到达时结束
+            expect(finallySpy.mock.calls).toEqual([[1], [2], [1]])
+        })
+
+        it("throttle 应该在时间内只让每个分组的第一个上下文继续执行", async () => {
+            const spy = vi.fn()
+            const handler = new PerikanFlow(perikan, Reading)
+                .throttle(100, (ctx) => ctx.payload.sensor)
+                .handle((ctx) => spy(ctx.payload.sensor, ctx.payload.value))
+                .build()
+
+            await handler(read("a", 1))
+            await handler(read("a", 2))
+            await handler(read("b", 1))
+            await vi.advanceTimersByTimeAsync(100)
+            await handler(read("a", 3))
+
+            expect(spy.mock.calls).toEqual([
+                ["a", 1],
+                ["b", 1],
+                ["a", 3]
+            ])
+        })
+
+        it("batch 应该在批次已满或等待超时时将上下文交给后续步骤", async () => {
+            const batches: number[][] = []
+            const finallySpy = vi.fn()
+            const handler = new PerikanFlow(perikan, Reading)
+                .batch({ size: 3, maxWait: 100 })
+                .handle((ctx) => {
+                    batches.push(ctx.batch.map((item) => item.payload.value))
+                })
+                .finally((ctx) => finallySpy(ctx.payload.value))
+                .build()
+
+            for (const value of [1, 2, 3, 4, 5]) await handler(read("a", value))
+            expect(batches).toEqual([[1, 2, 3]])
+
+            await vi.advanceTimersByTimeAsync(100)
+            expect(batches).toEqual([
+                [1, 2, 3],
+                [4, 5]
+            ])
+            // 被批次吸收的上下文也应该结束
+            expect(finallySpy.mock.calls.map(([value]) => value).sort()).toEqual([1, 2, 3, 4, 5])
+        })
+
+        it("滚动窗口应该将每个时间段内的上下文一起交给后续步骤", async () => {
+            const windows: number[][] = []
+            const handler = new PerikanFlow(perikan, Reading)
+                .window({ size: 100 })
+                .handle((ctx) => {
+                    windows.push(ctx.window.map((item) => item.payload.value))
+                })
+                .build()
+
+            await handler(read("a", 1))
+            await vi.advanceTimersByTimeAsync(60)
+            await handler(read("a", 2))
+            await vi.advanceTimersByTimeAsync(60)
+            await handler(read("a", 3))
+            await vi.advanceTimersByTimeAsync(100)
+
+            expect(windows).toEqual([[1, 2], [3]])
+        })
+
+        it("滑动窗口中的上下文应该出现在所有覆盖它的窗口中", async () => {
+            const windows: number[][] = []
+            const handler = new PerikanFlow(perikan, Reading)
+                .window({ size: 100, slide: 50 })
+                .handle((ctx) => {
+                    windows.push(ctx.window.map((item) => item.payload.value))
+                })
+                .build()
+
+            await handler(read("a", 1))
+            await vi.advanceTimersByTimeAsync(60)
+            await handler(read("a", 2))
+            await vi.advanceTimersByTimeAsync(200)
+
+            expect(windows).toEqual([[1], [1, 2], [2]])
+        })
+
+        it("窗口的边界不应该受计时器延迟的影响，每个上下文只结束一次", async () => {
+            const windows: number[][] = []
+            const finallySpy = vi.fn()
+            const handler = new PerikanFlow(perikan, Reading)
+                .window({ size: 100, slide: 50 })
+                .handle((ctx) => {
+                    windows.push(ctx.window.map((item) => item.payload.value))
+                })
+                .finally((ctx) => finallySpy(ctx.payload.value))
+                .build()
+
+            await handler(read("a", 1))
+            await vi.advanceTimersByTimeAsync(60)
+            await handler(read("a", 2))
+            // 事件循环被阻塞，第二个窗口的计时器延迟 30 毫秒触发
+            vi.setSystemTime(Date.now() + 30)
+            await vi.advanceTimersByTimeAsync(40)
+            expect(windows).toEqual([[1], [1, 2]])
+
+            await vi.advanceTimersByTimeAsync(100)
+            expect(windows).toEqual([[1], [1, 2], [2]])
+            expect(finallySpy.mock.calls).toEqual([[1], [2]])
+        })
+
+        it("commit 返回的函数应该清理计时器与暂存的上下文", async () => {
+            const local = new Perikan({ workerId: 1 })
+            const spy = vi.fn()
+            const finallySpy = vi.fn()
+            const unbind = new PerikanFlow(local, Reading)
+                .match((match) =>
+                    match.when(
+                        (ctx) => ctx.payload.sensor === "a",
+                        (flow) => flow.debounce(100).handle(spy)
+                    )
+                )
+                .batch({ maxWait: 100 })
+                .handle(spy)
+                .finally((ctx) => finallySpy(ctx.payload.sensor))
+                .commit()
+
+            await local.emit(Reading, { sensor: "a", value: 1 })
+            await local.emit(Reading, { sensor: "b", value: 1 })
+            unbind()
+            await vi.advanceTimersByTimeAsync(200)
+
+            expect(spy).not.toHaveBeenCalled()
+            // 分支中暂存的上下文同样运行主处理流的 finally
+            expect(finallySpy.mock.calls.map(([sensor]) => sensor).sort()).toEqual(["a", "b"])
+            expect(vi.getTimerCount()).toBe(0)
+        })
+
+        it("rejoin 分支中暂存的上下文恢复后应该回到主处理流", async () => {
+            const spy = vi.fn()
+            const finallySpy = vi.fn()
+            const catchSpy = vi.fn()
+            const handler = new PerikanFlow(perikan, Reading)
+                .match(
+                    (match) =>
+                        match.when(
+                            (ctx) => ctx.payload.sensor === "a",
+                            (flow) => flow.debounce(100).pipe(() => ({ label: "debounced" }))
+                        ),
+                    { rejoin: true }
+                )
+                .handle((ctx) => {
+                    spy(ctx.payload.value, (ctx as { label?: string }).label)
+                    if (ctx.payload.value === 3) throw new Error("boom")
+                })
+                .catch((ctx, err) => catchSpy(ctx.payload.value, err.message))
+                .finally((ctx) => finallySpy(ctx.payload.value))
+                .build()
+
+            await handler(read("a", 1))
+            await handler(read("a", 2))
+            await vi.advanceTimersByTimeAsync(100)
+            expect(spy.mock.calls).toEqual([[2, "debounced"]])
+            expect(finallySpy.mock.calls).toEqual([[1], [2]])
+
+            // 恢复后的错误交给主处理流的 catch
+            await handler(read("a", 3))
+            await vi.advanceTimersByTimeAsync(100)
+            expect(catchSpy.mock.calls).toEqual([[3, "boom"]])
+            expect(finallySpy.mock.calls).toEqual([[1], [2], [3]])
+        })
+
+        it("无效的时间参数应该抛出 RangeError", () => {
+            const flow = new PerikanFlow(perikan, Reading)
+            expect(() => flow.debounce(0)).toThrow(RangeError)
+            expect(() => flow.batch({})).toThrow(RangeError)
+            expect(() => flow.batch({ size: 1.5 })).toThrow(RangeError)
+            expect(() => flow.window({ size: 100, slide: 200 })).toThrow(RangeError)
+        })
+    })
+
+    describe("后续事件", () => {
+        const Placed = definePerikanEvent("test.flow.lineage.placed", z.object({ orderId: z.string() }))
+        const Reserved = definePerikanEvent("test.flow.lineage.reserved", z.object({ orderId: z.string() }))
+        const Notified = definePerikanEvent("test.flow.lineage.notified", z.object({ orderId: z.string(), channel: z.string() }))
+
+        it("emit 步骤与 ctx.emit 发布的事件应该记录因果链", async () => {
+            const local = new Perikan({ workerId: 1 })
+            const reserved = local.waitFor(Reserved)
+            const notified = local.waitFor(Notified)
+
+            new PerikanFlow(local, Placed).emit(Reserved, (ctx) => ({ orderId: ctx.payload.orderId }), { tags: ["inventory"] }).commit()
+            new PerikanFlow(local, Reserved).handle((ctx) => ctx.emit(Notified, { orderId: ctx.payload.orderId, channel: "mail" })).commit()
+
+            const { data: placed } = await local.emit(Placed, { orderId: "1" })
+
+            const reservedData = await reserved
+            const notifiedData = await notified
+            expect(reservedData).toMatchObject({ tags: ["inventory"], causationId: placed.id, correlationId: placed.id })
+            expect(notifiedData).toMatchObject({ causationId: reservedData.id, correlationId: placed.id })
+        })
+    })
 })
@@ -0,0 +1,542 @@
+import { describe, it, expect, vi } from "vitest"
+import * as entry from "../src/index"
+import { Perikan } from "../src/index"
+import { definePerikanEvent } from "../src/event"
+import { defineRequest } from "../src/request"
+import { PerikanDeadLetterEvent } from "../src/retry"
+import { PerikanFlow } from "../src/matcher"
+import type { EventHandler, IPerikanEventBus } from "../src/bus"
+import z from "zod"
+
+describe("Perikan", () => {
+    const TestEvent = definePerikanEvent("test.perikan", z.object({ foo: z.string() }), { defaultTags: ["default"] })
+    const UnknownEvent = definePerikanEvent("test.unknown", z.object({}))
+
+    it("包入口应该导出公开的 API", () => {
+        for (const name of [
+            "PerikanLocalBus",
+            "PerikanEventCatalog",
+            "PerikanJSONCodec",
+            "PerikanEventRegistry",
+            "PerikanRouter",
+            "PerikanThreadBus",
+            "PerikanRemoteBus",
+            "PerikanMemoryEventStore",
+            "PerikanFileEventStore",
+            "PerikanTracer",
+            "PerikanFlow",
+            "defineSaga",
+            "defineProjection",
+            "definePerikanEvent"
+        ]) {
+            expect(entry).toHaveProperty(name)
+        }
+    })
+
+    it("时钟回拨时仍然应该能够注册处理器与同步创建事件", async () => {
+        let now = Date.now()
+        const perikan = new Perikan({ workerId: 1, snowflake: { clock: () => now } })
+        TestEvent.create(perikan, { foo: "bar" })
+        now -= 1
+
+        const handler = vi.fn()
+        expect(() => perikan.on(TestEvent, handler)).not.toThrow()
+        expect(() => TestEvent.create(perikan, { foo: "bar" })).not.toThrow()
+    })
+
+    describe("emit", () => {
+        it("应该构建事件并分发给处理器", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const handler = vi.fn()
+            perikan.on(TestEvent, handler)
+
+            const { data } = await perikan.emit(TestEvent, { foo: "bar" }, { tags: ["extra"] })
+
+            expect(data.topic).toBe("test.perikan")
+            expect(data.from).toBe(1)
+            expect(data.tags).toEqual(["default", "extra"])
+            expect(handler).toHaveBeenCalledWith(data)
+        })
+
+        it("负载无效时应该抛出错误且不分发", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const handler = vi.fn()
+            perikan.on(TestEvent, handler)
+
+            await expect(perikan.emit(TestEvent, { foo: 1 } as any)).rejects.toThrow()
+            expect(handler).not.toHaveBeenCalled()
+        })
+
+        it("应该根据触发事件填充 causationId 与 correlationId", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+
+            const { data: root } = await perikan.emit(TestEvent, { foo: "root" })
+            const { data: child } = await perikan.emit(TestEvent, { foo: "child" }, { causedBy: root })
+            const { data: grandchild } = await perikan.emit(TestEvent, { payload: { foo: "grandchild" }, causedBy: child })
+
+            expect(root.correlationId).toBe(root.id)
+            expect(root.causationId).toBeUndefined()
+            expect(child).toMatchObject({ correlationId: root.id, causationId: root.id })
+            expect(grandchild).toMatchObject({ correlationId: root.id, causationId: child.id })
+        })
+    })
+
+    describe("错误处理", () => {
+        it("emit 应该返回投递报告", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            perikan.on(TestEvent, () => {})
+
+            const { report } = await perikan.emit(TestEvent, { foo: "bar" })
+            expect(report).toMatchObject({ topic: TestEvent.topic, accepted: true, results: [{ status: "fulfilled" }] })
+        })
+
+        it("处理器失败时应该调用实例级别与订阅级别的错误回调", async () => {
+            const instanceOnError = vi.fn()
+            const subscriptionOnError = vi.fn()
+            const perikan = new Perikan({ workerId: 1, onError: instanceOnError })
+            perikan.on(
+                TestEvent,
+                () => {
+                    throw new Error("boom")
+                },
+                { onError: subscriptionOnError }
+            )
+
+            const { data } = await perikan.emit(TestEvent, { foo: "bar" })
+
+            expect(subscriptionOnError).toHaveBeenCalledWith(
+                data,
+                expect.objectContaining({ message: "boom" }),
+                expect.objectContaining({ attempts: 1 })
+            )
+            expect(instanceOnError).toHaveBeenCalledWith(data, expect.objectContaining({ message: "boom" }), expect.objectContaining({ attempts: 1 }))
+        })
+
+        it("订阅级别的错误回调抛出异常时仍然应该调用实例级别的错误回调并产生死信", async () => {
+            const instanceOnError = vi.fn()
+            const perikan = new Perikan({ workerId: 1, onError: instanceOnError })
+            const deadLetters = vi.fn()
+            perikan.on(PerikanDeadLetterEvent, deadLetters)
+            perikan.on(
+                TestEvent,
+                () => {
+                    throw new Error("boom")
+                },
+                {
+                    onError: () => {
+                        throw new Error("callback")
+                    }
+                }
+            )
+
+            await perikan.emit(TestEvent, { foo: "bar" })
+
+            expect(instanceOnError).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ message: "boom" }), expect.anything())
+            await vi.waitFor(() => expect(deadLetters).toHaveBeenCalled())
+        })
+    })
+
+    describe("死信", () => {
+        it("死信发布失败时应该交给实例级别的错误回调", async () => {
+            const onError = vi.fn()
+            const perikan = new Perikan({ workerId: 1, onError })
+            perikan.use({ beforeEmit: (data) => (data.topic === PerikanDeadLetterEvent.topic ? Promise.reject(new Error("rejected")) : undefined) })
+            perikan.on(TestEvent, () => Promise.reject(new Error("boom")))
+
+            const { data } = await perikan.emit(TestEvent, { foo: "bar" })
+
+            await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(2))
+            const [original, error] = onError.mock.calls[1]!
+            expect(original).toEqual(data)
+            expect(error).toMatchObject({ message: `Failed to publish the dead letter of ${TestEvent.topic}`, cause: { message: "rejected" } })
+        })
+
+        it("死信被拦截器否决时应该交给实例级别的错误回调", async () => {
+            const onError = vi.fn()
+            const perikan = new Perikan({ workerId: 1, onError })
+            perikan.use({ beforeEmit: (data) => (data.topic === PerikanDeadLetterEvent.topic ? false : undefined) })
+            perikan.on(TestEvent, () => Promise.reject(new Error("boom")))
+
+            await perikan.emit(TestEvent, { foo: "bar" })
+
+            await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(2))
+            expect(onError.mock.calls[1]![1]).toMatchObject({ message: `Failed to publish the dead letter of ${TestEvent.topic}` })
+        })
+
+        it("重试耗尽后应该发布包含原始事件数据的死信", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const deadLetters = vi.fn()
+            perikan.on(PerikanDeadLetterEvent, deadLetters)
+            perikan.on(TestEvent, () => Promise.reject(new Error("boom")), { retry: { maxAttempts: 2, delay: 1 } })
+
+            const { data } = await perikan.emit(TestEvent, { foo: "bar" })
+            await vi.waitFor(() => expect(deadLetters).toHaveBeenCalled())
+
+            expect(deadLetters.mock.calls[0]![0].payload).toMatchObject({ original: data, status: "rejected", error: "boom", attempts: 2 })
+        })
+
+        it("应该能够将死信重新投递给失败的订阅", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const deadLetters: any[] = []
+            perikan.on(PerikanDeadLetterEvent, (data) => {
+                deadLetters.push(data)
+            })
+
+            let fail = true
+            const handler = vi.fn(() => {
+                if (fail) throw new Error("boom")
+            })
+            const otherHandler = vi.fn()
+            perikan.on(TestEvent, handler)
+            perikan.on(TestEvent, otherHandler)
+
+            await perikan.emit(TestEvent, { foo: "bar" })
+            await vi.waitFor(() => expect(deadLetters).toHaveLength(1))
+
+            fail = false
+            await perikan.redeliver(deadLetters[0])
+
+            expect(handler).toHaveBeenCalledTimes(2)
+            expect(otherHandler).toHaveBeenCalledTimes(1)
+        })
+
+        it("关闭死信后不应该发布死信", async () => {
+            const perikan = new Perikan({ workerId: 1, deadLetter: false })
+            const deadLetters = vi.fn()
+            perikan.on(PerikanDeadLetterEvent, deadLetters)
+            perikan.on(TestEvent, () => Promise.reject(new Error("boom")))
+
+            await perikan.emit(TestEvent, { foo: "bar" })
+            await new Promise((r) => setTimeout(r, 10))
+
+            expect(deadLetters).not.toHaveBeenCalled()
+        })
+    })
+
+    describe("once 与 waitFor", () => {
+        it("异步投递时同时进行中的投递也只应该让 once 处理器执行一次", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            perikan.use({ beforeDeliver: async () => {} })
+            const handler = vi.fn()
+            perikan.once(TestEvent, handler)
+
+            const [first, second] = await Promise.all([perikan.emit(TestEvent, { foo: "a" }), perikan.emit(TestEvent, { foo: "b" })])
+
+            expect(handler).toHaveBeenCalledTimes(1)
+            expect([first.report.results[0]!.status, second.report.results[0]!.status].sort()).toEqual(["fulfilled", "skipped"])
+        })
+
+        it("once 注册的处理器应该只执行一次", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const handler = vi.fn()
+            perikan.once(TestEvent, handler)
+
+            await perikan.emit(TestEvent, { foo: "a" })
+            await perikan.emit(TestEvent, { foo: "b" })
+
+            expect(handler).toHaveBeenCalledTimes(1)
+        })
+
+        it("waitFor 应该返回第一个满足条件的事件", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const waiting = perikan.waitFor(TestEvent, { where: (data) => data.payload.foo === "b" })
+
+            await perikan.emit(TestEvent, { foo: "a" })
+            const { data } = await perikan.emit(TestEvent, { foo: "b" })
+
+            await expect(waiting).resolves.toEqual(data)
+        })
+
+        it("waitFor 超时时应该拒绝并取消注册", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            await expect(perikan.waitFor(TestEvent, { timeout: 10 })).rejects.toThrow("timed out")
+
+            // @ts-ignore - bus is protected
+            expect(perikan.bus.hasListeners(TestEvent.topic)).toBe(false)
+        })
+
+        it("waitFor 被取消时应该以取消原因拒绝", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const controller = new AbortController()
+            const waiting = perikan.waitFor(TestEvent, { signal: controller.signal })
+
+            controller.abort(new Error("cancelled"))
+            await expect(waiting).rejects.toThrow("cancelled")
+        })
+    })
+
+    it("应该支持只实现了 on 与 emit 的自定义总线", async () => {
+        const handlers: EventHandler<any>[] = []
+        const bus: IPerikanEventBus = {
+            on: (event, handler) => {
+                handlers.push(handler)
+                return () => {}
+            },
+            emit: async (event, data) => {
+                for (const handler of handlers) await handler(data)
+            }
+        }
+        const perikan = new Perikan({ workerId: 1, bus })
+        const handler = vi.fn()
+        perikan.on(TestEvent, handler)
+
+        const { report } = await perikan.emit(TestEvent, { foo: "bar" })
+
+        expect(handler).toHaveBeenCalled()
+        expect(report).toEqual({ topic: TestEvent.topic, accepted: true, results: [] })
+        expect(() => perikan.onPattern("test.*", () => {})).toThrow("does not support pattern subscriptions")
+    })
+
+    describe("onPattern", () => {
+        const PlacedEvent = definePerikanEvent("order.placed", z.object({ orderId: z.string() }))
+        const PaidEvent = definePerikanEvent("order.paid", z.object({ orderId: z.string(), amount: z.number() }))
+        const CancelledEvent = definePerikanEvent("order.cancelled", z.object({ orderId: z.string() }))
+
+        it("提供事件列表时应该只接收列出的事件", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const topics: string[] = []
+            perikan.onPattern("order.*", [PlacedEvent, PaidEvent], (data) => {
+                if (data.topic === PaidEvent.topic) expect(data.payload.orderId).toBe("1")
+                topics.push(data.topic)
+            })
+
+            await perikan.emit(PlacedEvent, { orderId: "1" })
+            await perikan.emit(PaidEvent, { orderId: "1", amount: 10 })
+            await perikan.emit(CancelledEvent, { orderId: "1" })
+
+            expect(topics).toEqual(["order.placed", "order.paid"])
+        })
+
+        it("事件主题与模式不匹配时应该抛出错误", () => {
+            const perikan = new Perikan({ workerId: 1 })
+            expect(() => perikan.onPattern("payment.*", [PlacedEvent], () => {})).toThrow()
+        })
+    })
+
+    describe("publish", () => {
+        it("应该根据主题查找已知的事件并分发", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const handler = vi.fn()
+            perikan.on(TestEvent, handler)
+
+            const eventData = TestEvent.create(perikan, { foo: "bar" })
+            await perikan.publish(eventData)
+
+            expect(handler).toHaveBeenCalledWith(eventData)
+        })
+
+        it("主题未知时应该抛出错误", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            await expect(perikan.publish(UnknownEvent.create(perikan))).rejects.toThrow("Unknown event topic")
+        })
+
+        it("显式提供事件时应该验证事件数据", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const eventData = { ...TestEvent.create(perikan, { foo: "bar" }), payload: {} } as any
+            await expect(perikan.publish(TestEvent, eventData)).rejects.toThrow()
+        })
+    })
+
+    describe("拦截器", () => {
+        it("beforeEmit 应该能够替换事件数据", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const handler = vi.fn()
+            perikan.on(TestEvent, handler)
+            perikan.use({ beforeEmit: (data) => ({ ...data, tags: [...data.tags, "tenant:a"] }) })
+
+            const { data } = await perikan.emit(TestEvent, { foo: "bar" })
+
+            expect(data.tags).toEqual(["default", "tenant:a"])
+            expect(handler.mock.calls[0]![0].tags).toEqual(["default", "tenant:a"])
+        })
+
+        it("beforeEmit 返回 false 时应该否决事件", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const handler = vi.fn()
+            perikan.on(TestEvent, handler)
+            perikan.use({ beforeEmit: (data) => (data.payload.foo === "blocked" ? false : undefined) })
+
+            const { report } = await perikan.emit(TestEvent, { foo: "blocked" })
+            await perikan.emit(TestEvent, { foo: "bar" })
+
+            expect(report).toEqual({ topic: "test.perikan", accepted: false, results: [] })
+            expect(handler).toHaveBeenCalledTimes(1)
+        })
+
+        it("beforeDeliver 应该能够按订阅跳过处理器或替换事件数据", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const first = vi.fn()
+            const second = vi.fn()
+            perikan.on(TestEvent, first)
+            perikan.on(TestEvent, second)
+
+            let skipped: string | undefined
+            perikan.use({
+                beforeDeliver: (data, { subscriptionId }) => {
+                    skipped ??= subscriptionId
+                    if (subscriptionId === skipped) return false
+                    return { ...data, payload: { foo: data.payload.foo.toUpperCase() } }
+                }
+            })
+            const { report } = await perikan.emit(TestEvent, { foo: "bar" })
+
+            expect(first).not.toHaveBeenCalled()
+            expect(second.mock.calls[0]![0].payload).toEqual({ foo: "BAR" })
+            expect(report.results.map((result) => result.status)).toEqual(["skipped", "fulfilled"])
+        })
+
+        it("一个订阅的投递被跳过时不应该影响其他订阅的 afterDeliver", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            perikan.on(TestEvent, () => {})
+            perikan.on(TestEvent, () => {})
+
+            let vetoed: string | undefined
+            const after = vi.fn()
+            perikan.use({
+                beforeDeliver: (data, { subscriptionId }) => {
+                    vetoed ??= subscriptionId
+                    return subscriptionId === vetoed ? false : undefined
+                },
+                afterDeliver: (data, result, { subscriptionId }) => after(subscriptionId, result.status)
+            })
+            await perikan.emit(TestEvent, { foo: "bar" })
+
+            await vi.waitFor(() => expect(after).toHaveBeenCalledTimes(1))
+            expect(after.mock.calls[0]![0]).not.toBe(vetoed)
+            expect(after.mock.calls[0]![1]).toBe("fulfilled")
+        })
+
+        it("afterDeliver 应该收到每次投递的结果，被跳过的投递除外", async () => {
+            const perikan = new Perikan({ workerId: 1, deadLetter: false })
+            perikan.on(TestEvent, () => {})
+            perikan.on(TestEvent, () => {
+                throw new Error("boom")
+            })
+            perikan.on(TestEvent, vi.fn())
+
+            const after = vi.fn()
+            let count = 0
+            perikan.use({ beforeDeliver: () => (++count === 3 ? false : undefined) })
+            perikan.use({ afterDeliver: (data, result) => after(data.payload.foo, result.status) })
+
+            await perikan.emit(TestEvent, { foo: "bar" })
+
+            await vi.waitFor(() => expect(after).toHaveBeenCalledTimes(2))
+            expect(after.mock.calls).toEqual(
+                expect.arrayContaining([
+                    ["bar", "fulfilled"],
+                    ["bar", "rejected"]
+                ])
+            )
+        })
+
+        it("拦截器应该作用于处理流与重新投递", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const deadLetters: any[] = []
+            perikan.on(PerikanDeadLetterEvent, (data) => {
+                deadLetters.push(data)
+            })
+
+            let fail = true
+            const spy = vi.fn()
+            new PerikanFlow(perikan, TestEvent)
+                .pipe((ctx) => {
+                    if (fail) throw new Error("boom")
+                    spy(ctx.payload.foo)
+                })
+                .commit()
+
+            const seen: string[] = []
+            perikan.use({
+                beforeDeliver: (data) => {
+                    if (data.topic === TestEvent.topic) seen.push(data.payload.foo)
+                }
+            })
+
+            await perikan.emit(TestEvent, { foo: "bar" })
+            await vi.waitFor(() => expect(deadLetters).toHaveLength(1))
+            fail = false
+            await perikan.redeliver(deadLetters[0])
+
+            expect(seen).toEqual(["bar", "bar"])
+            expect(spy).toHaveBeenCalledWith("bar")
+        })
+
+        it("use 返回的函数应该移除拦截器", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const beforeEmit = vi.fn()
+            const remove = perikan.use({ beforeEmit })
+
+            await perikan.emit(TestEvent, { foo: "bar" })
+            remove()
+            await perikan.emit(TestEvent, { foo: "bar" })
+
+            expect(beforeEmit).toHaveBeenCalledTimes(1)
+        })
+    })
+
+    describe("request", () => {
+        const GetUser = defineRequest("user.get", z.object({ id: z.number() }), z.object({ name: z.string() }))
+
+        it("应该将响应方的返回值作为响应", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            perikan.respond(GetUser, (data) => ({ name: `user-${data.payload.id}` }))
+
+            await expect(perikan.request(GetUser, { id: 7 })).resolves.toEqual({ name: "user-7" })
+        })
+
+        it("并发请求应该根据 id 关联各自的回复", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            perikan.respond(GetUser, async (data) => {
+                await new Promise((r) => setTimeout(r, 10 - data.payload.id))
+                return { name: `user-${data.payload.id}` }
+            })
+
+            const results = await Promise.all([1, 2, 3].map((id) => perikan.request(GetUser, { id })))
+            expect(results.map((r) => r.name)).toEqual(["user-1", "user-2", "user-3"])
+        })
+
+        it("回复应该由请求事件触发", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const replies = vi.fn()
+            perikan.on(GetUser.reply, replies)
+            perikan.respond(GetUser, () => ({ name: "user" }))
+
+            await perikan.request(GetUser, { id: 1 })
+
+            const reply = replies.mock.calls[0]![0]
+            expect(reply.causationId).toBe(reply.payload.requestId)
+            expect(reply.correlationId).toBe(reply.payload.requestId)
+        })
+
+        it("没有响应方时应该拒绝", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            await expect(perikan.request(GetUser, { id: 1 })).rejects.toThrow("No responder")
+        })
+
+        it("只有通配符订阅者时应该视为没有响应方", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            perikan.onPattern("#", () => {})
+            await expect(perikan.request(GetUser, { id: 1 })).rejects.toThrow("No responder")
+        })
+
+        it("响应超时时应该拒绝", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            perikan.respond(GetUser, () => new Promise(() => {}))
+
+            await expect(perikan.request(GetUser, { id: 1 }, { timeout: 10 })).rejects.toThrow("timed out")
+        })
+
+        it("响应方出错或响应无效时应该拒绝", async () => {
+            const perikan = new Perikan({ workerId: 1 })
+            const unbind = perikan.respond(GetUser, () => {
+                throw new Error("not found")
+            })
+            await expect(perikan.request(GetUser, { id: 1 })).rejects.toThrow("not found")
+
+            unbind()
+            perikan.respond(GetUser, () => ({ name: 1 }) as any)
+            await expect(perikan.request(GetUser, { id: 1 })).rejects.toThrow()
+        })
+    })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from "vitest"
+import { Perikan } from "../src/index"
+import { definePerikanEvent } from "../src/event"
+import { defineProjection } from "../src/projection"
+import { PerikanMemoryEventStore } from "../src/store"
+import { PerikanLocalBus } from "../src/bus"
+import z from "zod"
+
+describe("PerikanProjection", () => {
+    const Deposited = definePerikanEvent("test.projection.deposited", z.object({ account: z.string(), amount: z.number() }))
+    const Withdrawn = definePerikanEvent("test.projection.withdrawn", z.object({ account: z.string(), amount: z.number() }))
+    const Closed = definePerikanEvent("test.projection.closed", z.object({ account: z.string() }))
+
+    const createBalances = () =>
+        defineProjection({
+            events: { deposited: Deposited, withdrawn: Withdrawn, closed: Closed },
+            initial: () => ({ balance: 0 }),
+            key: (data) => data.payload.account,
+            reducers: {
+                deposited: (state, data) => ({ balance: state.balance + data.payload.amount }),
+                withdrawn: (state, data) => ({ balance: state.balance - data.payload.amount }),
+                closed: () => undefined
+            }
+        })
+
+    it("应该按照实体键归约事件并提供查询", async () => {
+        const perikan = new Perikan({ workerId: 1 })
+        const balances = createBalances()
+        balances.commit(perikan)
+
+        await perikan.emit(Deposited, { account: "a", amount: 10 })
+        await perikan.emit(Deposited, { account: "b", amount: 5 })
+        await perikan.emit(Withdrawn, { account: "a", amount: 3 })
+
+        expect(balances.get("a")).toEqual({ balance: 7 })
+        expect(balances.get("missing")).toBeUndefined()
+        expect(balances.query((state) => state.balance > 6)).toEqual([{ balance: 7 }])
+        expect(Array.from(balances.entries())).toEqual([
+            ["a", { balance: 7 }],
+            ["b", { balance: 5 }]
+        ])
+
+        await perikan.emit(Closed, { account: "b" })
+        expect(balances.get("b")).toBeUndefined()
+    })
+
+    it("不分键的投影应该只有一个状态", async () => {
+        const perikan = new Perikan({ workerId: 1 })
+        const total = defineProjection({
+            events: { deposited: Deposited },
+            initial: () => 0,
+            reducers: { deposited: (sum, data) => sum + data.payload.amount }
+        })
+        total.commit(perikan)
+
+        await perikan.emit(Deposited, { account: "a", amount: 10 })
+        await perikan.emit(Deposited, { account: "b", amount: 5 })
+
+        expect(total.get()).toBe(15)
+    })
+
+    it("应该通知订阅者状态的变更", async () => {
+        const perikan = new Perikan({ workerId: 1 })
+        const balances = createBalances()
+        balances.commit(perikan)
+        const listener = vi.fn()
+        balances.subscribe(listener)
+
+        const { data } = await perikan.emit(Deposited, { account: "a", amount: 10 })
+
+        expect(listener).toHaveBeenCalledWith({ key: "a", state: { balance: 10 }, previous: undefined, data })
+    })
+
+    it("应该跳过已经应用的事件以便幂等地追赶", async () => {
+        const store = new PerikanMemoryEventStore()
+        const perikan = new Perikan({ workerId: 1, store })
+        await perikan.emit(Deposited, { account: "a", amount: 10 })
+        await perikan.emit(Deposited, { account: "a", amount: 5 })
+
+        const balances = createBalances()
+        await expect(balances.catchUp(store.query())).resolves.toBe(2)
+        await expect(balances.catchUp(store.query())).resolves.toBe(0)
+        expect(balances.get("a")).toEqual({ balance: 15 })
+
+        const { data } = await perikan.emit(Withdrawn, { account: "a", amount: 1 })
+        await expect(balances.catchUp(store.query({ sinceId: balances.lastId! + 1n }))).resolves.toBe(1)
+        expect(balances.lastId).toBe(data.id)
+        expect(balances.get("a")).toEqual({ balance: 14 })
+    })
+
+    it("应该能够通过快照恢复并从历史事件重建", async () => {
+        const perikan = new Perikan({ workerId: 1 })
+        const history = [
+            Deposited.create(perikan, { account: "a", amount: 10 }),
+            Withdrawn.create(perikan, { account: "a", amount: 4 }),
+            Deposited.create(perikan, { account: "b", amount: 1 })
+        ]
+
+        const balances = createBalances()
+        await balances.rebuild(history.slice(0, 2))
+        const snapshot = balances.snapshot()
+
+        const restored = createBalances().restore(snapshot)
+        expect(restored.get("a")).toEqual({ balance: 6 })
+        expect(restored.lastId).toBe(history[1]!.id)
+
+        await restored.catchUp(history)
+        expect(Array.from(restored.entries())).toEqual([
+            ["a", { balance: 6 }],
+            ["b", { balance: 1 }]
+        ])
+
+        await balances.rebuild(history)
+        expect(balances.snapshot()).toEqual(restored.snapshot())
+    })
+
+    it("从快照恢复后不应该重复应用快照中已经包含的实时事件", async () => {
+        const perikan = new Perikan({ workerId: 1 })
+        const balances = createBalances()
+        balances.commit(perikan)
+        const { data } = await perikan.emit(Deposited, { account: "a", amount: 10 })
+
+        const restored = createBalances().restore(balances.snapshot())
+        restored.commit(perikan)
+        await perikan.publish(data)
+        await perikan.emit(Deposited, { account: "a", amount: 5 })
+
+        expect(restored.get("a")).toEqual({ balance: 15 })
+    })
+
+    it("多个生产者乱序到达的实时事件都应该被应用，重复的事件被跳过", async () => {
+        const bus = new PerikanLocalBus()
+        const producers = [new Perikan({ workerId: 2, bus }), new Perikan({ workerId: 1, bus })]
+        const balances = createBalances()
+        balances.commit(producers[0]!)
+
+        const emitted = []
+        for (let i = 0; i < 100; i++) emitted.push((await producers[i % 2]!.emit(Deposited, { account: "a", amount: 1 })).data)
+
+        expect(balances.get("a")).toEqual({ balance: 100 })
+        expect(balances.apply(emitted[0]!)).toBe(false)
+        expect(balances.lastId).toBe(emitted.reduce((max, data) => (data.id > max ? data.id : max), 0n))
+    })
+
+    it("订阅者的异常应该交给 onError", async () => {
+        const perikan = new Perikan({ workerId: 1 })
+        const onError = vi.fn()
+        const total = defineProjection({
+            events: { deposited: Deposited },
+            initial: () => 0,
+            reducers: { deposited: (sum, data) => sum + data.payload.amount },
+            onError
+        })
+        total.commit(perikan)
+        total.subscribe(() => {
+            throw new Error("listener")
+        })
+
+        await perikan.emit(Deposited, { account: "a", amount: 1 })
+
+        expect(total.get()).toBe(1)
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: "listener" }), expect.objectContaining({ key: "", state: 1 }))
+    })
+
+    it("应该忽略不属于投影的事件并拒绝无效的事件数据", () => {
+        const perikan = new Perikan({ workerId: 1 })
+        const Other = definePerikanEvent("test.projection.other", z.object({}))
+        const balances = createBalances()
+
+        expect(balances.apply(Other.create(perikan, {}))).toBe(false)
+        expect(() => balances.apply({ ...Deposited.create(perikan, { account: "a", amount: 1 }), payload: { account: "a" } })).toThrow()
+    })
+})
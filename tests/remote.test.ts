@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { Perikan } from "../src/index"
+import { definePerikanEvent } from "../src/event"
+import { PerikanBroker, PerikanRemoteBus, type PerikanRemoteBusOptions } from "../src/remote"
+import { defineRequest } from "../src/request"
+import { createConnection } from "node:net"
+import z from "zod"
+
+describe("PerikanRemoteBus", () => {
+    const TestEvent = definePerikanEvent("test.remote", z.object({ value: z.number(), big: z.bigint() }))
+
+    const brokers: PerikanBroker[] = []
+    const buses: PerikanRemoteBus[] = []
+
+    const startBroker = async (port = 0) => {
+        const broker = new PerikanBroker({ port })
+        brokers.push(broker)
+        return { broker, port: await broker.listen() }
+    }
+
+    const connect = async (workerId: number, options: Omit<PerikanRemoteBusOptions, "workerId">) => {
+        const bus = new PerikanRemoteBus({ workerId, ...options })
+        buses.push(bus)
+        await bus.connect()
+        return { bus, perikan: new Perikan({ workerId, bus }) }
+    }
+
+    const flush = (ms = 30) => new Promise((r) => setTimeout(r, ms))
+
+    afterEach(async () => {
+        buses.splice(0).forEach((bus) => bus.close())
+        await Promise.all(brokers.splice(0).map((broker) => broker.close()))
+    })
+
+    it("应该通过代理在多个实例之间投递事件", async () => {
+        const { port } = await startBroker()
+        const a = await connect(1, { port })
+        const b = await connect(2, { port })
+        const handler = vi.fn()
+        b.perikan.on(TestEvent, handler)
+        await flush()
+
+        const { data } = await a.perikan.emit(TestEvent, { value: 1, big: 2n ** 60n })
+        await vi.waitFor(() => expect(handler).toHaveBeenCalledWith(data))
+    })
+
+    it("应该遵守 to 字段中的 worker id", async () => {
+        const { port } = await startBroker()
+        const a = await connect(1, { port })
+        const b = await connect(2, { port })
+        const c = await connect(3, { port })
+        const handlerB = vi.fn()
+        const handlerC = vi.fn()
+        b.perikan.on(TestEvent, handlerB)
+        c.perikan.on(TestEvent, handlerC)
+        await flush()
+
+        await a.perikan.emit(TestEvent, { value: 1, big: 1n }, { to: [3] })
+        await vi.waitFor(() => expect(handlerC).toHaveBeenCalled())
+        expect(handlerB).not.toHaveBeenCalled()
+    })
+
+    it("断开期间发送的事件应该在重新连接后发送", async () => {
+        const { broker, port } = await startBroker()
+        const a = await connect(1, { port, reconnectDelay: 100 })
+        const b = await connect(2, { port, reconnectDelay: 10 })
+        const handler = vi.fn()
+        b.perikan.on(TestEvent, handler)
+        await flush()
+
+        await broker.close()
+        await vi.waitFor(() => expect(a.bus.isConnected).toBe(false))
+        await a.perikan.emit(TestEvent, { value: 42, big: 1n })
+
+        await startBroker(port)
+        await vi.waitFor(() => expect(handler).toHaveBeenCalled(), { timeout: 2000 })
+        expect(handler.mock.calls[0]![0].payload.value).toBe(42)
+    })
+
+    it("连接成功前关闭时 connect 应该被拒绝", async () => {
+        const { broker, port } = await startBroker()
+        await broker.close()
+
+        const bus = new PerikanRemoteBus({ workerId: 1, port, reconnectDelay: 10 })
+        const connecting = bus.connect()
+        await flush()
+        bus.close()
+
+        await expect(connecting).rejects.toThrow("closed before connecting")
+    })
+
+    it("超过最大长度的帧应该断开连接", async () => {
+        const broker = new PerikanBroker({ maxFrameLength: 64 })
+        brokers.push(broker)
+        const socket = createConnection({ port: await broker.listen() })
+        const closed = new Promise((resolve) => socket.on("close", resolve))
+        socket.on("error", () => {})
+
+        socket.write("x".repeat(100))
+        await expect(closed).resolves.toBeDefined()
+    })
+
+    it("跨进程的请求应该能收到回复", async () => {
+        const Double = defineRequest("test.remote.double", z.object({ value: z.number() }), z.object({ result: z.number() }))
+
+        const { port } = await startBroker()
+        const a = await connect(1, { port })
+        const b = await connect(2, { port })
+        b.perikan.respond(Double, (data) => ({ result: data.payload.value * 2 }))
+        await flush()
+
+        await expect(a.perikan.request(Double, { value: 5 }, { timeout: 1000 })).resolves.toEqual({ result: 10 })
+    })
+})
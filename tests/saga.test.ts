@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { Perikan } from "../src/index"
+import { definePerikanEvent } from "../src/event"
+import { PerikanMemorySagaStore, defineSaga } from "../src/saga"
+import { PerikanLocalBus } from "../src/bus"
+import z from "zod"
+
+describe("PerikanSaga", () => {
+    const OrderPlaced = definePerikanEvent("test.saga.order.placed", z.object({ orderId: z.string(), amount: z.number() }))
+    const PaymentSettled = definePerikanEvent("test.saga.payment.settled", z.object({ orderId: z.string() }))
+    const ShipmentDispatched = definePerikanEvent("test.saga.shipment.dispatched", z.object({ orderId: z.string() }))
+    const ChargePayment = definePerikanEvent("test.saga.payment.charge", z.object({ orderId: z.string(), amount: z.number() }))
+    const RefundPayment = definePerikanEvent("test.saga.payment.refund", z.object({ orderId: z.string() }))
+    const ReleaseStock = definePerikanEvent("test.saga.stock.release", z.object({ orderId: z.string() }))
+
+    const createSaga = () =>
+        defineSaga<{ amount: number; paid: boolean }>("test.order")
+            .startedBy(
+                OrderPlaced,
+                (payload) => payload.orderId,
+                (data) => ({ amount: data.payload.amount, paid: false }),
+                (ctx) => {
+                    ctx.emit(ChargePayment, { orderId: ctx.key, amount: ctx.state.amount })
+                    ctx.compensateWith(ReleaseStock, { orderId: ctx.key })
+                    ctx.schedule("shipment", 1000)
+                }
+            )
+            .on(
+                PaymentSettled,
+                (payload) => payload.orderId,
+                (ctx) => {
+                    ctx.compensateWith(RefundPayment, { orderId: ctx.key })
+                    return { ...ctx.state, paid: true }
+                }
+            )
+            .on(
+                ShipmentDispatched,
+                (payload) => payload.orderId,
+                (ctx) => ctx.complete()
+            )
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it("应该按照关联键维护实例状态并发出命令", async () => {
+        const perikan = new Perikan({ workerId: 1 })
+        const store = new PerikanMemorySagaStore()
+        const charges = vi.fn()
+        perikan.on(ChargePayment, charges)
+        createSaga().commit(perikan, { store })
+
+        const { data: placed } = await perikan.emit(OrderPlaced, { orderId: "a", amount: 10 })
+        await perikan.emit(OrderPlaced, { orderId: "b", amount: 20 })
+        await perikan.emit(PaymentSettled, { orderId: "a" })
+        await perikan.emit(ShipmentDispatched, { orderId: "a" })
+
+        await expect(store.load("test.order", "a")).resolves.toMatchObject({ status: "completed", state: { amount: 10, paid: true }, timeouts: [] })
+        await expect(store.load("test.order", "b")).resolves.toMatchObject({ status: "running", state: { amount: 20, paid: false } })
+        expect(charges.mock.calls.map(([data]) => data.payload)).toEqual([
+            { orderId: "a", amount: 10 },
+            { orderId: "b", amount: 20 }
+        ])
+        expect(charges.mock.calls[0]![0].causationId).toBe(placed.id)
+    })
+
+    it("没有运行中的实例时应该忽略非启动事件", async () => {
+        const perikan = new Perikan({ workerId: 1 })
+        const store = new PerikanMemorySagaStore()
+        createSaga().commit(perikan, { store })
+
+        await perikan.emit(PaymentSettled, { orderId: "missing" })
+
+        await expect(store.load("test.order", "missing")).resolves.toBeUndefined()
+    })
+
+    it("超时应该使 Saga 失败并按照相反的顺序发出补偿", async () => {
+        vi.useFakeTimers()
+        const perikan = new Perikan({ workerId: 1 })
+        const store = new PerikanMemorySagaStore()
+        const compensations: string[] = []
+        perikan.on(RefundPayment, () => void compensations.push("refund"))
+        perikan.on(ReleaseStock, () => void compensations.push("release"))
+        createSaga().commit(perikan, { store })
+
+        await perikan.emit(OrderPlaced, { orderId: "a", amount: 10 })
+        await perikan.emit(PaymentSettled, { orderId: "a" })
+        await vi.advanceTimersByTimeAsync(1000)
+
+        expect(compensations).toEqual(["refund", "release"])
+        await expect(store.load("test.order", "a")).resolves.toMatchObject({ status: "compensated", error: "Saga test.order timed out: shipment" })
+    })
+
+    it("超时处理函数与取消超时应该生效", async () => {
+        vi.useFakeTimers()
+        const perikan = new Perikan({ workerId: 1 })
+        const store = new PerikanMemorySagaStore()
+        const reminders = vi.fn()
+        createSaga()
+            .onTimeout("shipment", (ctx) => {
+                reminders(ctx.key)
+                ctx.schedule("shipment", 1000)
+            })
+            .commit(perikan, { store })
+
+        await perikan.emit(OrderPlaced, { orderId: "a", amount: 10 })
+        await vi.advanceTimersByTimeAsync(1000)
+        expect(reminders).toHaveBeenCalledWith("a")
+
+        await perikan.emit(ShipmentDispatched, { orderId: "a" })
+        await vi.advanceTimersByTimeAsync(5000)
+        expect(reminders).toHaveBeenCalledTimes(1)
+        expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it("处理函数失败时不应该保存状态或发出命令", async () => {
+        const perikan = new Perikan({ workerId: 1, deadLetter: false })
+        const store = new PerikanMemorySagaStore()
+        const charges = vi.fn()
+        perikan.on(ChargePayment, charges)
+        defineSaga("test.failing")
+            .startedBy(
+                OrderPlaced,
+                (payload) => payload.orderId,
+                () => ({}),
+                (ctx) => {
+                    ctx.emit(ChargePayment, { orderId: ctx.key, amount: 1 })
+                    throw new Error("boom")
+                }
+            )
+            .commit(perikan, { store })
+
+        const { report } = await perikan.emit(OrderPlaced, { orderId: "a", amount: 10 })
+
+        expect(report.results[0]!.status).toBe("rejected")
+        expect(charges).not.toHaveBeenCalled()
+        await expect(store.load("test.failing", "a")).resolves.toBeUndefined()
+    })
+
+    it("重新运行时应该从存储中恢复超时", async () => {
+        vi.useFakeTimers()
+        const store = new PerikanMemorySagaStore()
+        const first = new Perikan({ workerId: 1 })
+        const stop = createSaga().commit(first, { store })
+        await first.emit(OrderPlaced, { orderId: "a", amount: 10 })
+        stop()
+        expect(vi.getTimerCount()).toBe(0)
+
+        const second = new Perikan({ workerId: 1 })
+        const released = vi.fn()
+        second.on(ReleaseStock, released)
+        createSaga().commit(second, { store })
+        await vi.advanceTimersByTimeAsync(1000)
+
+        expect(released).toHaveBeenCalledTimes(1)
+    })
+
+    it("命令的处理器同步发布同一实例的后续事件时不应该死锁", async () => {
+        // 没有投递超时的总线上，死锁会使发布永远无法完成
+        const perikan = new Perikan({ workerId: 1, bus: new PerikanLocalBus({ workerId: 1 }) })
+        const store = new PerikanMemorySagaStore()
+        const charged = vi.fn()
+        perikan.on(ChargePayment, async (data) => {
+            await perikan.emit(PaymentSettled, { orderId: data.payload.orderId })
+            charged()
+        })
+        createSaga().commit(perikan, { store })
+
+        const { report } = await perikan.emit(OrderPlaced, { orderId: "a", amount: 10 })
+
+        expect(report.results[0]!.status).toBe("fulfilled")
+        expect(charged).toHaveBeenCalled()
+        await expect(store.load("test.order", "a")).resolves.toMatchObject({ state: { paid: true } })
+    })
+
+    it("超过 setTimeout 最大延迟的超时不应该提前触发", async () => {
+        vi.useFakeTimers()
+        const perikan = new Perikan({ workerId: 1 })
+        const store = new PerikanMemorySagaStore()
+        const expired = vi.fn()
+        const day = 24 * 60 * 60 * 1000
+        defineSaga("test.long")
+            .startedBy(
+                OrderPlaced,
+                (payload) => payload.orderId,
+                () => ({}),
+                (ctx) => ctx.schedule("expire", 30 * day)
+            )
+            .onTimeout("expire", (ctx) => {
+                expired(ctx.key)
+                ctx.complete()
+            })
+            .commit(perikan, { store })
+
+        await perikan.emit(OrderPlaced, { orderId: "a", amount: 1 })
+        await vi.advanceTimersByTimeAsync(29 * day)
+        expect(expired).not.toHaveBeenCalled()
+
+        await vi.advanceTimersByTimeAsync(day)
+        expect(expired).toHaveBeenCalledWith("a")
+    })
+
+    it("补偿事件发出失败时应该保存进度并交给 onError", async () => {
+        vi.useFakeTimers()
+        const perikan = new Perikan({ workerId: 1 })
+        const store = new PerikanMemorySagaStore()
+        const onError = vi.fn()
+        const released = vi.fn()
+        perikan.on(ReleaseStock, released)
+        perikan.use({
+            beforeEmit: (data) => {
+                if (data.topic === RefundPayment.topic) throw new Error("refund unavailable")
+            }
+        })
+        createSaga().commit(perikan, { store, onError })
+
+        await perikan.emit(OrderPlaced, { orderId: "a", amount: 10 })
+        await perikan.emit(PaymentSettled, { orderId: "a" })
+        await vi.advanceTimersByTimeAsync(1000)
+
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: "refund unavailable" }), "a")
+        expect(released).not.toHaveBeenCalled()
+        const instance = await store.load("test.order", "a")
+        expect(instance?.compensations.map((compensation) => compensation.topic)).toEqual([ReleaseStock.topic, RefundPayment.topic])
+    })
+
+    it("恢复超时时应该使用存储中最新的触发时间", async () => {
+        vi.useFakeTimers()
+        const perikan = new Perikan({ workerId: 1 })
+        const store = new PerikanMemorySagaStore()
+        const stop = createSaga().commit(perikan, { store })
+        await perikan.emit(OrderPlaced, { orderId: "a", amount: 10 })
+        stop()
+
+        // 另一个进程以相同的名称推迟了超时
+        const instance = (await store.load("test.order", "a"))!
+        await store.save({ ...instance, version: instance.version + 1, timeouts: [{ name: "shipment", at: Date.now() + 5000 }] })
+
+        const released = vi.fn()
+        perikan.on(ReleaseStock, released)
+        createSaga().commit(perikan, { store })
+        await vi.advanceTimersByTimeAsync(1000)
+        expect(released).not.toHaveBeenCalled()
+
+        await vi.advanceTimersByTimeAsync(4000)
+        expect(released).toHaveBeenCalledTimes(1)
+    })
+
+    it("内存存储应该拒绝并发修改", async () => {
+        const store = new PerikanMemorySagaStore()
+        const instance = {
+            saga: "s",
+            key: "k",
+            state: {},
+            status: "running" as const,
+            version: 1,
+            timeouts: [],
+            compensations: [],
+            startedAt: 0,
+            updatedAt: 0
+        }
+        await store.save(instance)
+
+        await expect(store.save(instance)).rejects.toThrow("modified concurrently")
+    })
+
+    it("同一个事件不能被同一个 Saga 处理两次", () => {
+        expect(() =>
+            createSaga().on(
+                OrderPlaced,
+                (payload) => payload.orderId,
+                () => {}
+            )
+        ).toThrow("already handled")
+    })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest"
+import { Perikan } from "../src/index"
+import { definePerikanEvent } from "../src/event"
+import { SnowFlake, decodeSnowFlake } from "../src/snowflake"
+import z from "zod"
+
+describe("SnowFlake", () => {
+    // 可以手动控制的时钟
+    const createClock = (start = 1750000000000) => {
+        const clock = { now: start, read: () => clock.now }
+        return clock
+    }
+
+    it("生成的 ID 应该唯一且单调递增", async () => {
+        const sf = new SnowFlake(1)
+        const ids: bigint[] = []
+        for (let i = 0; i < 10000; i++) ids.push(await sf.nextIdAsync())
+
+        expect(new Set(ids).size).toBe(ids.length)
+        expect(ids.every((id, i) => i === 0 || id > ids[i - 1]!)).toBe(true)
+    })
+
+    it("应该能够解析出时间戳、worker id 与序列号", () => {
+        const clock = createClock()
+        const sf = new SnowFlake(5, { clock: clock.read })
+        sf.nextId()
+        const id = sf.nextId()
+
+        expect(sf.decode(id)).toEqual({ timestamp: clock.now, workerId: 5, sequence: 1 })
+        expect(decodeSnowFlake(id)).toEqual(sf.decode(id))
+    })
+
+    it("应该支持自定义的起始时间与位布局", () => {
+        const clock = createClock()
+        const layout = { epoch: 1600000000000, workerIdBits: 4, sequenceBits: 6 }
+        const sf = new SnowFlake(15, { ...layout, clock: clock.read })
+
+        expect(decodeSnowFlake(sf.nextId(), layout)).toEqual({ timestamp: clock.now, workerId: 15, sequence: 0 })
+    })
+
+    it("应该拒绝超出位数的 worker id 与无效的位布局", () => {
+        expect(() => new SnowFlake(1024)).toThrow(RangeError)
+        expect(() => new SnowFlake(-1)).toThrow(RangeError)
+        expect(() => new SnowFlake(1.5)).toThrow(RangeError)
+        expect(() => new SnowFlake(0, { workerIdBits: 40, sequenceBits: 30 })).toThrow(RangeError)
+    })
+
+    it("序列号耗尽时应该等待下一毫秒", async () => {
+        const clock = createClock()
+        const sf = new SnowFlake(1, { sequenceBits: 1, clock: clock.read })
+        sf.nextId()
+        sf.nextId()
+
+        const pending = sf.nextIdAsync()
+        clock.now += 1
+        const id = await pending
+
+        expect(sf.decode(id)).toMatchObject({ timestamp: clock.now, sequence: 0 })
+    })
+
+    it("需要等待时钟时同步生成应该借用下一毫秒而不是阻塞或抛出错误", () => {
+        const clock = createClock()
+        const sf = new SnowFlake(1, { sequenceBits: 1, clock: clock.read })
+        const ids = [sf.nextId(), sf.nextId(), sf.nextId()]
+
+        expect(sf.decode(ids[2]!)).toMatchObject({ timestamp: clock.now + 1, sequence: 0 })
+        clock.now += 1
+        expect(sf.nextId()).toBeGreaterThan(ids[2]!)
+    })
+
+    describe("时钟回拨", () => {
+        it("throw 策略应该抛出错误", () => {
+            const clock = createClock()
+            const sf = new SnowFlake(1, { clockRollback: "throw", clock: clock.read })
+            sf.nextId()
+            clock.now -= 10
+
+            expect(() => sf.nextId()).toThrow("Clock moved backwards")
+        })
+
+        it("wait 策略应该等待时钟追上", async () => {
+            const clock = createClock()
+            const sf = new SnowFlake(1, { clockRollback: "wait", clock: clock.read })
+            const first = sf.nextId()
+            clock.now -= 10
+
+            const pending = sf.nextIdAsync()
+            setTimeout(() => (clock.now += 10), 5)
+            expect(await pending).toBeGreaterThan(first)
+        })
+
+        it("wait 策略下同步生成应该借用上一次的时间戳", () => {
+            const clock = createClock()
+            const sf = new SnowFlake(1, { clockRollback: "wait", clock: clock.read })
+            const first = sf.nextId()
+            clock.now -= 1
+
+            expect(sf.nextId()).toBeGreaterThan(first)
+        })
+
+        it("wait 策略在回拨超出上限时应该抛出错误", () => {
+            const clock = createClock()
+            const sf = new SnowFlake(1, { clockRollback: "wait", maxRollback: 5, clock: clock.read })
+            sf.nextId()
+            clock.now -= 10
+
+            expect(() => sf.nextId()).toThrow("exceeding")
+        })
+
+        it("logical 策略应该继续生成单调递增的 ID", () => {
+            const clock = createClock()
+            const sf = new SnowFlake(1, { clockRollback: "logical", sequenceBits: 1, clock: clock.read })
+            const ids = [sf.nextId()]
+            clock.now -= 100
+            for (let i = 0; i < 5; i++) ids.push(sf.nextId())
+
+            expect(ids.every((id, i) => i === 0 || id > ids[i - 1]!)).toBe(true)
+        })
+    })
+
+    it("应该能够从事件数据的 id 中读取时间与来源", () => {
+        const perikan = new Perikan({ workerId: 7 })
+        const TestEvent = definePerikanEvent("test.snowflake", z.object({}))
+        const data = TestEvent.create(perikan)
+
+        expect(perikan.decodeId(data.id)).toMatchObject({ workerId: 7 })
+        expect(Math.abs(perikan.decodeId(data.id).timestamp - data.time)).toBeLessThanOrEqual(1)
+    })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, afterAll } from "vitest"
+import { appendFile, mkdtemp, readFile, readdir, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { Perikan } from "../src/index"
+import { definePerikanEvent } from "../src/event"
+import { PerikanFileEventStore, PerikanMemoryEventStore, isReplayed, type IPerikanEventStore } from "../src/store"
+import z from "zod"
+
+describe("PerikanEventStore", () => {
+    const PlacedEvent = definePerikanEvent("order.placed", z.object({ orderId: z.number() }))
+    const PaidEvent = definePerikanEvent("order.paid", z.object({ orderId: z.number() }), { defaultTags: ["billing"] })
+
+    const collect = async (iterable: AsyncIterable<any>) => {
+        const result = []
+        for await (const item of iterable) result.push(item)
+        return result
+    }
+
+    const directories: string[] = []
+    afterAll(async () => {
+        await Promise.all(directories.map((directory) => rm(directory, { recursive: true, force: true })))
+    })
+
+    const stores: [string, () => Promise<IPerikanEventStore>][] = [
+        ["PerikanMemoryEventStore", async () => new PerikanMemoryEventStore()],
+        [
+            "PerikanFileEventStore",
+            async () => {
+                const directory = await mkdtemp(join(tmpdir(), "perikan-store-"))
+                directories.push(directory)
+                return new PerikanFileEventStore({ directory, segmentSize: 3 })
+            }
+        ]
+    ]
+
+    describe.each(stores)("%s", (_, createStore) => {
+        it("应该记录通过实例发布的事件", async () => {
+            const store = await createStore()
+            const perikan = new Perikan({ workerId: 1, store })
+
+            const { data } = await perikan.emit(PlacedEvent, { orderId: 1 })
+            await expect(collect(store.query())).resolves.toEqual([data])
+        })
+
+        it("应该支持按照主题、时间、id、标签与偏移量查询", async () => {
+            const store = await createStore()
+            const perikan = new Perikan({ workerId: 1, store })
+            const events = []
+            for (let i = 0; i < 8; i++) {
+                events.push((await perikan.emit(i % 2 === 0 ? PlacedEvent : PaidEvent, { orderId: i })).data)
+            }
+
+            const ids = async (query: object) => (await collect(store.query(query))).map((data) => data.payload.orderId)
+            expect(await ids({ topic: "order.paid" })).toEqual([1, 3, 5, 7])
+            expect(await ids({ topic: "order.*", limit: 3 })).toEqual([0, 1, 2])
+            expect(await ids({ tags: ["billing"], offset: 4 })).toEqual([5, 7])
+            expect(await ids({ sinceId: events[2]!.id, untilId: events[5]!.id })).toEqual([2, 3, 4])
+            expect(await ids({ since: events[0]!.time, until: events[7]!.time + 1 })).toHaveLength(8)
+        })
+
+        it("应该支持按照关联 ID 查询同一条因果链上的事件", async () => {
+            const store = await createStore()
+            const perikan = new Perikan({ workerId: 1, store })
+            const { data: root } = await perikan.emit(PlacedEvent, { orderId: 1 })
+            await perikan.emit(PlacedEvent, { orderId: 2 })
+            const { data: child } = await perikan.emit(PaidEvent, { orderId: 1 }, { causedBy: root })
+            await perikan.emit(PaidEvent, { orderId: 1 }, { causedBy: child })
+
+            const chain = await collect(store.query({ correlationId: root.id }))
+            expect(chain.map((data) => data.causationId)).toEqual([undefined, root.id, child.id])
+        })
+
+        it("应该以重放标记重放事件且不再次记录", async () => {
+            const store = await createStore()
+            const perikan = new Perikan({ workerId: 1, store })
+            await perikan.emit(PlacedEvent, { orderId: 1 })
+            await perikan.emit(PaidEvent, { orderId: 1 })
+
+            const handler = vi.fn()
+            perikan.on(PlacedEvent, handler)
+
+            await expect(perikan.replay({ topic: "order.placed" })).resolves.toBe(1)
+            expect(isReplayed(handler.mock.calls[0]![0])).toBe(true)
+            await expect(collect(store.query())).resolves.toHaveLength(2)
+        })
+    })
+
+    it("文件存储应该按照分段大小写入多个文件并在重新打开后继续追加", async () => {
+        const directory = await mkdtemp(join(tmpdir(), "perikan-store-"))
+        directories.push(directory)
+        const perikan = new Perikan({ workerId: 1 })
+
+        const store = new PerikanFileEventStore({ directory, segmentSize: 2 })
+        for (let i = 0; i < 3; i++) await store.append(PlacedEvent.create(perikan, { orderId: i }))
+
+        const reopened = new PerikanFileEventStore({ directory, segmentSize: 2 })
+        await reopened.append(PlacedEvent.create(perikan, { orderId: 3 }))
+
+        expect(await readdir(directory)).toHaveLength(2)
+        expect((await collect(reopened.query({ offset: 1 }))).map((data) => data.payload.orderId)).toEqual([1, 2, 3])
+    })
+
+    it("文件存储应该忽略写入中断时留下的不完整的最后一行，并在追加前将其截断", async () => {
+        const directory = await mkdtemp(join(tmpdir(), "perikan-store-"))
+        directories.push(directory)
+        const perikan = new Perikan({ workerId: 1 })
+
+        const store = new PerikanFileEventStore({ directory, segmentSize: 10 })
+        await store.append(PlacedEvent.create(perikan, { orderId: 0 }))
+        await appendFile(join(directory, "00000000.jsonl"), '{"id":')
+
+        const reopened = new PerikanFileEventStore({ directory, segmentSize: 10 })
+        expect((await collect(reopened.query())).map((data) => data.payload.orderId)).toEqual([0])
+        await reopened.append(PlacedEvent.create(perikan, { orderId: 1 }))
+
+        expect((await collect(reopened.query())).map((data) => data.payload.orderId)).toEqual([0, 1])
+        expect((await readFile(join(directory, "00000000.jsonl"), "utf8")).split("\n")).toHaveLength(3)
+    })
+
+    it("重放应该跳过主题未注册的事件而不中止", async () => {
+        const store = new PerikanMemoryEventStore()
+        const perikan = new Perikan({ workerId: 1, store })
+        const { data: placed } = await perikan.emit(PlacedEvent, { orderId: 0 })
+        await perikan.emit(PaidEvent, { orderId: 0 })
+
+        const replayer = new Perikan({ workerId: 2, store })
+        const handler = vi.fn()
+        const onSkip = vi.fn()
+        replayer.on(PaidEvent, handler)
+
+        await expect(replayer.replay({}, { onSkip })).resolves.toBe(1)
+        expect(onSkip).toHaveBeenCalledWith(placed)
+        expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it("重放应该支持节流与中止", async () => {
+        const store = new PerikanMemoryEventStore()
+        const perikan = new Perikan({ workerId: 1, store })
+        for (let i = 0; i < 3; i++) await perikan.emit(PlacedEvent, { orderId: i })
+
+        const start = Date.now()
+        await perikan.replay({}, { throttle: 20 })
+        expect(Date.now() - start).toBeGreaterThanOrEqual(35)
+
+        const controller = new AbortController()
+        controller.abort(new Error("stop"))
+        await expect(perikan.replay({}, { signal: controller.signal })).rejects.toThrow("stop")
+    })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest"
+import { PerikanTagIndex, compileTagSelector, matchTags } from "../src/tags"
+
+describe("标签选择器", () => {
+    it("对象选择器应该同时满足 all、any 与 none", () => {
+        const selector = { all: ["billing"], any: ["eu", "us"], none: ["internal"] }
+
+        expect(matchTags(selector, ["billing", "eu"])).toBe(true)
+        expect(matchTags(selector, ["billing", "us", "extra"])).toBe(true)
+        expect(matchTags(selector, ["billing"])).toBe(false)
+        expect(matchTags(selector, ["eu"])).toBe(false)
+        expect(matchTags(selector, ["billing", "eu", "internal"])).toBe(false)
+        expect(matchTags({}, [])).toBe(true)
+    })
+
+    it("表达式应该按照 !、&&、|| 的优先级求值", () => {
+        expect(matchTags("a || b && c", ["a"])).toBe(true)
+        expect(matchTags("(a || b) && c", ["a"])).toBe(false)
+        expect(matchTags("!a && b", ["b"])).toBe(true)
+        expect(matchTags("!(a || b)", ["b"])).toBe(false)
+        expect(matchTags("billing and (eu or us) and not internal", ["billing", "us"])).toBe(true)
+        expect(matchTags("tenant:acme && region/eu-west", ["tenant:acme", "region/eu-west"])).toBe(true)
+    })
+
+    it("无效的表达式应该抛出 SyntaxError", () => {
+        expect(() => compileTagSelector("")).toThrow(SyntaxError)
+        expect(() => compileTagSelector("a &&")).toThrow(SyntaxError)
+        expect(() => compileTagSelector("(a || b")).toThrow(SyntaxError)
+        expect(() => compileTagSelector("a b")).toThrow(SyntaxError)
+        expect(() => compileTagSelector("a & b")).toThrow(SyntaxError)
+    })
+
+    it("应该计算匹配事件必须携带的锚点标签", () => {
+        expect(compileTagSelector("a && (b || c)").anchors).toEqual(new Set(["a"]))
+        expect(compileTagSelector("a || b").anchors).toEqual(new Set(["a", "b"]))
+        expect(compileTagSelector("a || !b").anchors).toBeUndefined()
+        expect(compileTagSelector({ any: ["x", "y"], none: ["z"] }).anchors).toEqual(new Set(["x", "y"]))
+        expect(compileTagSelector({ none: ["z"] }).anchors).toBeUndefined()
+    })
+})
+
+describe("PerikanTagIndex", () => {
+    it("应该只返回锚点标签被携带的值与没有锚点的值", () => {
+        const index = new PerikanTagIndex<string>()
+        index.add(compileTagSelector("eu && billing"), "eu")
+        index.add(compileTagSelector("us || ca"), "na")
+        index.add(compileTagSelector("!internal"), "public")
+
+        expect(index.candidates(["eu"])).toEqual(new Set(["eu", "public"]))
+        expect(index.candidates(["ca"])).toEqual(new Set(["na", "public"]))
+        expect(index.candidates([])).toEqual(new Set(["public"]))
+    })
+
+    it("删除后应该不再返回值", () => {
+        const index = new PerikanTagIndex<string>()
+        const matcher = compileTagSelector({ any: ["a", "b"] })
+        index.add(matcher, "value")
+        index.delete(matcher, "value")
+
+        expect(index.candidates(["a", "b"]).size).toBe(0)
+    })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { Perikan } from "../src/index"
+import { definePerikanEvent } from "../src/event"
+import { PerikanThreadBus, PerikanThreadHub } from "../src/thread"
+import { PerikanEventRegistry } from "../src/registry"
+import { defineRequest } from "../src/request"
+import z from "zod"
+
+describe("PerikanThreadBus", () => {
+    const TestEvent = definePerikanEvent("test.thread", z.object({ value: z.number() }))
+
+    let hub: PerikanThreadHub
+    const buses: PerikanThreadBus[] = []
+
+    // 在同一个线程中通过 MessageChannel 模拟多个 worker
+    const createWorker = (workerId: number, registry?: PerikanEventRegistry) => {
+        const bus = new PerikanThreadBus({ workerId, port: hub.createPort(workerId), registry })
+        buses.push(bus)
+        return { bus, perikan: new Perikan({ workerId, bus }) }
+    }
+
+    const flush = () => new Promise((r) => setTimeout(r, 20))
+
+    afterEach(() => {
+        buses.splice(0).forEach((bus) => bus.close())
+        hub?.close()
+    })
+
+    it("应该将广播事件投递给所有订阅的 worker", async () => {
+        hub = new PerikanThreadHub()
+        const main = createWorker(0)
+        const a = createWorker(1)
+        const b = createWorker(2)
+        const handlerA = vi.fn()
+        const handlerB = vi.fn()
+        a.perikan.on(TestEvent, handlerA)
+        b.perikan.on(TestEvent, handlerB)
+        await flush()
+
+        const { data } = await main.perikan.emit(TestEvent, { value: 1 })
+        await flush()
+
+        expect(handlerA).toHaveBeenCalledWith(data)
+        expect(handlerB).toHaveBeenCalledWith(data)
+    })
+
+    it("应该只将事件投递给 to 字段中的 worker", async () => {
+        hub = new PerikanThreadHub()
+        const main = createWorker(0)
+        const a = createWorker(1)
+        const b = createWorker(2)
+        const handlerA = vi.fn()
+        const handlerB = vi.fn()
+        a.perikan.on(TestEvent, handlerA)
+        b.perikan.on(TestEvent, handlerB)
+        await flush()
+
+        await main.perikan.emit(TestEvent, { value: 1 }, { to: [2] })
+        await flush()
+
+        expect(handlerA).not.toHaveBeenCalled()
+        expect(handlerB).toHaveBeenCalled()
+    })
+
+    it("不应该向没有订阅的 worker 发送事件", async () => {
+        hub = new PerikanThreadHub()
+        const main = createWorker(0)
+        const a = createWorker(1)
+        const unbind = a.perikan.on(TestEvent, vi.fn())
+        await flush()
+        expect(main.bus.hasListeners(TestEvent.topic)).toBe(true)
+
+        unbind()
+        await flush()
+        expect(main.bus.hasListeners(TestEvent.topic)).toBe(false)
+
+        // @ts-ignore - port is protected
+        const postMessage = vi.spyOn(main.bus.port, "postMessage")
+        await main.perikan.emit(TestEvent, { value: 1 })
+        expect(postMessage).not.toHaveBeenCalled()
+    })
+
+    it("新连接的 worker 应该同步已有的订阅", async () => {
+        hub = new PerikanThreadHub()
+        const a = createWorker(1)
+        const handler = vi.fn()
+        a.perikan.on(TestEvent, handler)
+        await flush()
+
+        const late = createWorker(2)
+        await flush()
+        await late.perikan.emit(TestEvent, { value: 1 })
+        await flush()
+
+        expect(handler).toHaveBeenCalled()
+    })
+
+    it("模式订阅应该通过注册表验证来自其他 worker 的事件", async () => {
+        hub = new PerikanThreadHub()
+        const main = createWorker(0)
+        const a = createWorker(1, new PerikanEventRegistry([TestEvent]))
+        const handler = vi.fn()
+        a.perikan.onPattern("test.#", handler)
+        await flush()
+
+        await main.perikan.emit(TestEvent, { value: 1 })
+        await flush()
+
+        expect(handler).toHaveBeenCalled()
+    })
+
+    it("没有提供注册表时模式订阅应该通过全局事件目录验证来自其他 worker 的事件", async () => {
+        hub = new PerikanThreadHub()
+        const main = createWorker(0)
+        const a = createWorker(1)
+        const handler = vi.fn()
+        a.perikan.onPattern("test.#", handler)
+        await flush()
+
+        const { data } = await main.perikan.emit(TestEvent, { value: 1 })
+        await flush()
+
+        expect(handler).toHaveBeenCalledWith(data)
+    })
+
+    it("跨线程的请求应该能收到回复", async () => {
+        const Double = defineRequest("test.thread.double", z.object({ value: z.number() }), z.object({ result: z.number() }))
+
+        hub = new PerikanThreadHub()
+        const main = createWorker(0)
+        const a = createWorker(1)
+        a.perikan.respond(Double, (data) => ({ result: data.payload.value * 2 }))
+        await flush()
+
+        await expect(main.perikan.request(Double, { value: 4 }, { timeout: 500 })).resolves.toEqual({ result: 8 })
+    })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest"
+import { PerikanTopicTrie, isTopicPattern, matchTopic } from "../src/topic"
+
+describe("PerikanTopicTrie", () => {
+    it("应该精确匹配不含通配符的主题", () => {
+        const trie = new PerikanTopicTrie<string>()
+        trie.add("order.placed", "a")
+
+        expect(trie.match("order.placed")).toEqual(new Set(["a"]))
+        expect(trie.match("order.paid").size).toBe(0)
+        expect(trie.match("order").size).toBe(0)
+    })
+
+    it("`*` 应该只匹配单个分段", () => {
+        expect(matchTopic("order.*", "order.placed")).toBe(true)
+        expect(matchTopic("order.*", "order")).toBe(false)
+        expect(matchTopic("order.*", "order.placed.eu")).toBe(false)
+        expect(matchTopic("*.placed", "order.placed")).toBe(true)
+    })
+
+    it("`#` 应该匹配零个或多个分段", () => {
+        expect(matchTopic("order.#", "order")).toBe(true)
+        expect(matchTopic("order.#", "order.placed")).toBe(true)
+        expect(matchTopic("order.#", "order.placed.eu")).toBe(true)
+        expect(matchTopic("order.#.eu", "order.placed.eu")).toBe(true)
+        expect(matchTopic("order.#.eu", "order.placed.us")).toBe(false)
+        expect(matchTopic("#", "anything.at.all")).toBe(true)
+    })
+
+    it("应该收集所有匹配模式的值", () => {
+        const trie = new PerikanTopicTrie<string>()
+        trie.add("order.placed", "exact")
+        trie.add("order.*", "single")
+        trie.add("order.#", "multi")
+        trie.add("payment.*", "other")
+
+        expect(trie.match("order.placed")).toEqual(new Set(["exact", "single", "multi"]))
+    })
+
+    it("移除最后一个值后应该清理节点", () => {
+        const trie = new PerikanTopicTrie<string>()
+        trie.add("order.placed.eu", "a")
+        trie.add("order.*", "b")
+
+        expect(trie.delete("order.placed.eu", "a")).toBe(true)
+        expect(trie.delete("order.placed.eu", "a")).toBe(false)
+        expect(trie.delete("order.*", "b")).toBe(true)
+        expect(trie.empty).toBe(true)
+    })
+
+    it("应该识别主题模式", () => {
+        expect(isTopicPattern("order.*")).toBe(true)
+        expect(isTopicPattern("order.#")).toBe(true)
+        expect(isTopicPattern("order.placed")).toBe(false)
+    })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest"
+import { Perikan } from "../src/index"
+import { definePerikanEvent } from "../src/event"
+import { PerikanFlow } from "../src/matcher"
+import { PerikanInMemorySpanExporter, PerikanTracer, formatTraceparent, parseTraceparent, type PerikanFinishedSpan } from "../src/tracing"
+import z from "zod"
+
+describe("追踪", () => {
+    const Placed = definePerikanEvent("test.tracing.placed", z.object({ orderId: z.string() }))
+    const Reserved = definePerikanEvent("test.tracing.reserved", z.object({ orderId: z.string() }))
+
+    const setup = () => {
+        const exporter = new PerikanInMemorySpanExporter()
+        const perikan = new Perikan({ workerId: 1, tracer: new PerikanTracer(exporter) })
+        const span = (name: string) => exporter.getFinishedSpans().find((span) => span.name === name)!
+        return { exporter, perikan, span }
+    }
+
+    it("traceparent 应该能够格式化与解析", () => {
+        const context = { traceId: "0af7651916cd43dd8448eb211c80319c", spanId: "b7ad6b7169203331", traceFlags: 1 }
+        const traceparent = formatTraceparent(context)
+
+        expect(traceparent).toBe("00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01")
+        expect(parseTraceparent(traceparent)).toEqual(context)
+        expect(parseTraceparent("invalid")).toBeUndefined()
+    })
+
+    it("只传入 traceparent 选项时应该将其视为选项而不是负载", () => {
+        const Ping = definePerikanEvent("test.tracing.ping", z.object({}))
+        const traceparent = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01"
+        const data = Ping.create(new Perikan({ workerId: 1 }), { traceparent })
+
+        expect(data.traceparent).toBe(traceparent)
+        expect(data.payload).toEqual({})
+    })
+
+    it("应该为发布、处理器、处理流步骤与后续事件创建 Span 树", async () => {
+        const { exporter, perikan, span } = setup()
+        const reserved = perikan.waitFor(Reserved)
+
+        new PerikanFlow(perikan, Placed)
+            .pipe(() => ({ checked: true }), { name: "check" })
+            .handle((ctx) => ctx.emit(Reserved, { orderId: ctx.payload.orderId }), { name: "reserve" })
+            .commit()
+
+        const { data } = await perikan.emit(Placed, { orderId: "1" })
+        await reserved
+
+        const publish = span("publish test.tracing.placed")
+        const process = span("process test.tracing.placed")
+        const flow = span("flow test.tracing.placed")
+        const reserve = span("step reserve")
+        const publishReserved = span("publish test.tracing.reserved")
+
+        expect(publish).toMatchObject({ kind: "producer", attributes: { "messaging.message.id": String(data.id), "perikan.delivery.handlers": 1 } })
+        expect(data.traceparent).toBe(formatTraceparent(publish))
+        expect(process).toMatchObject({ kind: "consumer", parentSpanId: publish.spanId, attributes: { "perikan.handler.status": "fulfilled" } })
+        expect(flow.parentSpanId).toBe(process.spanId)
+        expect(span("step check").parentSpanId).toBe(flow.spanId)
+        expect(reserve).toMatchObject({ parentSpanId: flow.spanId, attributes: { "perikan.flow.step.attempts": 1 } })
+        expect(publishReserved.parentSpanId).toBe(reserve.spanId)
+        expect(new Set(exporter.getFinishedSpans().map((span: PerikanFinishedSpan) => span.traceId))).toEqual(new Set([publish.traceId]))
+    })
+
+    it("窗口之后的步骤与后续事件应该保留追踪的父 Span", async () => {
+        vi.useFakeTimers()
+        const { perikan, span } = setup()
+        const reserved = perikan.waitFor(Reserved)
+        new PerikanFlow(perikan, Placed)
+            .window({ size: 100 })
+            .handle((ctx) => ctx.emit(Reserved, { orderId: ctx.payload.orderId }), { name: "reserve" })
+            .commit()
+
+        await perikan.emit(Placed, { orderId: "1" })
+        await vi.advanceTimersByTimeAsync(100)
+        await reserved
+        vi.useRealTimers()
+
+        const reserve = span("step reserve")
+        expect(reserve.parentSpanId).toBe(span("flow test.tracing.placed").spanId)
+        expect(span("publish test.tracing.reserved").parentSpanId).toBe(reserve.spanId)
+    })
+
+    it("失败的处理器与步骤应该记录错误", async () => {
+        const { perikan, span } = setup()
+        new PerikanFlow(perikan, Placed)
+            .pipe(
+                () => {
+                    throw new Error("boom")
+                },
+                { name: "explode" }
+            )
+            .commit()
+
+        await perikan.emit(Placed, { orderId: "1" })
+
+        expect(span("step explode")).toMatchObject({ status: { code: "error", message: "boom" }, events: [{ name: "exception" }] })
+        expect(span("process test.tracing.placed")).toMatchObject({ status: { code: "error" }, attributes: { "perikan.handler.status": "rejected" } })
+    })
+
+    it("应该延续其他实例发布的事件所携带的追踪", async () => {
+        const remote = setup()
+        const local = setup()
+        const { data } = await remote.perikan.emit(Placed, { orderId: "1" })
+
+        await local.perikan.publish(Placed, data)
+
+        const publish = local.span("publish test.tracing.placed")
+        expect(publish.traceId).toBe(remote.span("publish test.tracing.placed").traceId)
+        expect(publish.parentSpanId).toBe(parseTraceparent(data.traceparent)!.spanId)
+    })
+})
@@ -9,7 +9,8 @@ const pkg = JSON.parse(readFileSync(resolve(process.cwd(), "package.json"), "utf
 
 export default defineConfig({
     entry: {
-        index: "src/index.ts"
+        index: "src/index.ts",
+        cli: "src/cli.ts"
     },
     outDir: "dist",
     format: ["esm"],